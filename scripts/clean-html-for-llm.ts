@@ -1,12 +1,20 @@
 #!/usr/bin/env tsx
 import { readFile } from 'node:fs/promises';
 import path from 'node:path';
-import { cleanHtmlForLLM, DEFAULT_ALLOWED_TAGS, RECIPE_MINIMAL_TAGS } from '../src/cleaner/cleanHtmlForLLM.js';
+import { cleanHtmlForLLM } from '../src/cleaner/cleanHtmlForLLM.js';
+import {
+	CLEAN_PROFILE_NAMES,
+	CLEAN_PROFILES,
+	CleanProfileName,
+	isCleanProfileName,
+	resolveCleanOptions,
+} from '../src/cleaner/cleanProfiles.js';
 import { nodeDomAdapter } from '../src/cleaner/nodeDomAdapter.js';
-import type { CleanOptions } from '../src/cleaner/cleanHtmlForLLM.js';
+import type { CleanOptions, CleanOutputFormat } from '../src/cleaner/cleanHtmlForLLM.js';
 
 type CliResult = {
 	inputPath: string;
+	profile: CleanProfileName;
 	options: Partial<CleanOptions>;
 	showHelp: boolean;
 };
@@ -16,7 +24,9 @@ function printHelp(): void {
   tsx scripts/clean-html-for-llm.ts <path-to-html> [options]
 
 Options:
-  --allowed-tags <list>                Comma-separated tag list or keyword: default, recipe-minimal
+  --profile <name>                     Cleaning profile (default: default); the options below override its fields
+                                       ${CLEAN_PROFILE_NAMES.join(', ')}
+  --allowed-tags <list>                Comma-separated tag list or the name of a profile to take the tags of
   --drop-media | --no-drop-media       Drop media elements (default: true)
   --strict-urls | --no-strict-urls     Keep only http/https (default: true)
   --keep-tables | --no-keep-tables     Preserve minimal table tags (default: false)
@@ -25,11 +35,13 @@ Options:
                                        Try to remove consent UI (default: true)
   --output-minimal-text | --no-output-minimal-text
                                        Output minimal text, not HTML (default: false)
+  --output-format <format>             html, minimal-text, markdown or outline-json (default: html)
   -h, --help                           Show this help
 
 Examples:
   tsx scripts/clean-html-for-llm.ts ./page.html
   tsx scripts/clean-html-for-llm.ts ./page.html --allowed-tags recipe-minimal
+  tsx scripts/clean-html-for-llm.ts ./page.html --profile recipe-with-tables
   tsx scripts/clean-html-for-llm.ts ./page.html --keep-tables --no-drop-media
 
   Convert all htmls under testdata to simple texts:
@@ -48,8 +60,10 @@ function parseBoolean(value: string | undefined, flag: string): boolean {
 
 function parseAllowedTags(raw: string): Set<string> {
 	const trimmed = raw.trim().toLowerCase();
-	if (trimmed === 'default') return new Set(DEFAULT_ALLOWED_TAGS);
-	if (trimmed === 'recipe-minimal') return new Set(RECIPE_MINIMAL_TAGS);
+	if (isCleanProfileName(trimmed)) {
+		const { allowedTags } = CLEAN_PROFILES[trimmed]();
+		if (allowedTags) return allowedTags;
+	}
 	const tags = raw
 		.split(',')
 		.map((t) => t.trim().toLowerCase())
@@ -58,8 +72,23 @@ function parseAllowedTags(raw: string): Set<string> {
 	return new Set(tags);
 }
 
+function parseOutputFormat(raw: string): CleanOutputFormat {
+	const format = raw.trim().toLowerCase();
+	if (format === 'html' || format === 'minimal-text' || format === 'markdown' || format === 'outline-json') {
+		return format;
+	}
+	throw new Error(`Invalid output format: ${raw}`);
+}
+
+function parseProfile(raw: string): CleanProfileName {
+	const profile = raw.trim().toLowerCase();
+	if (isCleanProfileName(profile)) return profile;
+	throw new Error(`Unknown profile: ${raw}`);
+}
+
 function parseArgs(argv: string[]): CliResult {
 	let inputPath = '';
+	let profile: CleanProfileName = 'default';
 	const options: Partial<CleanOptions> = {};
 	let showHelp = false;
 
@@ -80,6 +109,13 @@ function parseArgs(argv: string[]): CliResult {
 			throw new Error(`Unexpected argument: ${arg}`);
 		}
 
+		if (arg === '--profile' || arg.startsWith('--profile=')) {
+			const value = arg.includes('=') ? arg.split('=', 2)[1] : argv[++i];
+			if (!value) throw new Error('Missing value for --profile');
+			profile = parseProfile(value);
+			continue;
+		}
+
 		if (arg.startsWith('--allowed-tags=')) {
 			options.allowedTags = parseAllowedTags(arg.split('=', 2)[1] ?? '');
 			continue;
@@ -157,14 +193,21 @@ function parseArgs(argv: string[]): CliResult {
 			continue;
 		}
 
+		if (arg === '--output-format' || arg.startsWith('--output-format=')) {
+			const value = arg.includes('=') ? arg.split('=', 2)[1] : argv[++i];
+			if (!value) throw new Error('Missing value for --output-format');
+			options.outputFormat = parseOutputFormat(value);
+			continue;
+		}
+
 		throw new Error(`Unknown option: ${arg}`);
 	}
 
-	return { inputPath, options, showHelp };
+	return { inputPath, profile, options, showHelp };
 }
 
 async function main() {
-	const { inputPath, options, showHelp } = parseArgs(process.argv.slice(2));
+	const { inputPath, profile, options, showHelp } = parseArgs(process.argv.slice(2));
 	if (showHelp || !inputPath) {
 		printHelp();
 		if (!inputPath) process.exitCode = 1;
@@ -175,7 +218,7 @@ async function main() {
 	const finalInputPath =
 		testDir && /^[0-9]{3}[a-z]?\.html$/.test(inputPath) ? path.join(testDir, inputPath) : inputPath;
 	const html = await readFile(finalInputPath, 'utf8');
-	const result = cleanHtmlForLLM(html, nodeDomAdapter, options);
+	const result = cleanHtmlForLLM(html, nodeDomAdapter, resolveCleanOptions(profile, options));
 	process.stdout.write(`${JSON.stringify(result, null, 2)}\n`);
 }
 
@@ -1,14 +1,67 @@
-import express from 'express';
+import express, { ErrorRequestHandler } from 'express';
 import { healthRouter } from 'app/routes/health.js';
 import { renderRouter } from 'app/routes/render.js';
+import { renderJobsRouter } from 'app/routes/renderJobs.js';
+import { artifactsRouter } from 'app/routes/artifacts.js';
+import { metricsRouter } from 'app/routes/metrics.js';
+import { requestContext } from 'app/routes/requestContext.js';
+import { authenticate, enforceClientQuotas, staticApiKeyAuthenticator } from 'app/routes/auth.js';
+import { ArtifactStore } from 'app/render/ArtifactStore.js';
+import { RenderJobStore } from 'app/render/RenderJobStore.js';
+import { Renderer } from 'app/render/Renderer.js';
+import { RenderMetrics } from 'app/render/RenderMetrics.js';
+import { DiskCacheBackend, MemoryCacheBackend, RenderCache } from 'app/render/RenderCache.js';
+import { toRenderErrorResponse } from 'app/render/renderErrors.js';
 import type { BrowserPool } from 'app/util/BrowserPool.js';
+import { ClientQuotas } from 'app/util/ClientQuotas.js';
 import type { Semaphore } from 'app/util/Semaphore.js';
 import type { Config } from 'app/model.js';
 
 export function createApp(browserPool: BrowserPool, semaphore: Semaphore, config: Config) {
+	const artifacts = new ArtifactStore(config.artifacts);
+	const metrics = new RenderMetrics();
+	const renderer = new Renderer({ browserPool, config, artifacts, metrics }, semaphore, createRenderCache(config));
+	metrics.observe({ semaphore, browserPool, coalescedCount: () => renderer.coalescedCount });
+	const jobStore = new RenderJobStore((renderRequest, hooks) => renderer.render(renderRequest, hooks), config.jobs);
+
 	const app = express();
-	app.use(express.json());
-	app.use(healthRouter());
-	app.use(renderRouter(browserPool, semaphore, config));
+	app.use(requestContext());
+	app.use(express.json({ limit: config.maxRequestBodyBytes }));
+	app.use(
+		healthRouter({
+			browserPool,
+			semaphore,
+			config: config.readiness,
+			coalescedCount: () => renderer.coalescedCount,
+		}),
+	);
+	app.use(metricsRouter(metrics.registry));
+	// Probes, metrics and artifacts (which has its own token) stay open; everything that renders needs a key
+	app.use(
+		'/render',
+		authenticate(config.auth.apiKeys.length > 0 ? staticApiKeyAuthenticator(config.auth) : undefined),
+	);
+	app.post(['/render', '/render/jobs'], enforceClientQuotas(new ClientQuotas()));
+	app.use(renderRouter(renderer, { maxQueueWaitMs: config.queue.maxWaitMs }));
+	app.use(renderJobsRouter(jobStore));
+	app.use(artifactsRouter(artifacts));
+	app.use(jsonErrorHandler);
 	return app;
 }
+
+/** Report errors that escaped the routes, such as malformed or oversized JSON bodies, in the usual error format. */
+const jsonErrorHandler: ErrorRequestHandler = (err, _req, res, next) => {
+	if (res.headersSent) {
+		next(err);
+		return;
+	}
+	const { status, body } = toRenderErrorResponse(err);
+	res.status(status).json(body);
+};
+
+function createRenderCache(config: Config): RenderCache | undefined {
+	const { maxEntries, ttlMs, dir } = config.cache;
+	if (maxEntries <= 0 || ttlMs <= 0) return undefined;
+	const backend = dir ? new DiskCacheBackend(dir, maxEntries) : new MemoryCacheBackend(maxEntries);
+	return new RenderCache(backend, ttlMs);
+}
@@ -14,6 +14,8 @@
  * The resulting `html` is tiny, readable, and ready to ship to the server/LLM.
  */
 import { documentToMinimalText } from './htmlToMinimalText.js';
+import { documentToMarkdown } from './htmlToMarkdown.js';
+import { documentToOutline } from './htmlToOutline.js';
 import { getBodyElement } from './getBodyElement.js';
 import { removeConsentUI } from './removeConsentUI.js';
 import { HtmlToDocumentAdapter } from './HtmlToDocumentAdapter.js';
@@ -31,10 +33,20 @@ export interface CleanOptions {
 	maxDepth: number;
 	/** Apply heuristics to try and clean consent UI elements. */
 	applyConsentUiHeuristics: boolean;
-	/** Output minimal text (see `htmlToMinimalText). */
+	/** Output minimal text (see `htmlToMinimalText); same as `outputFormat: 'minimal-text'`. */
 	outputMinimalText: boolean;
+	/** Serialization of the cleaned document; default html. */
+	outputFormat: CleanOutputFormat;
 }
 
+/**
+ * - `html`: the cleaned HTML
+ * - `minimal-text`: plain text with Markdown-like structure markers (see `htmlToMinimalText`)
+ * - `markdown`: Markdown, including emphasis, links and tables (see `htmlToMarkdown`)
+ * - `outline-json`: JSON of the sections, paragraphs, lists and tables (see `htmlToOutline`)
+ */
+export type CleanOutputFormat = 'html' | 'minimal-text' | 'markdown' | 'outline-json';
+
 export const DEFAULT_ALLOWED_TAGS: ReadonlySet<string> = new Set([
 	// Headings & paragraphs
 	'h1',
@@ -89,6 +101,7 @@ export function cleanDocumentForLLM(doc: Document, options?: Partial<CleanOption
 		maxDepth: 200000,
 		applyConsentUiHeuristics: true,
 		outputMinimalText: false,
+		outputFormat: 'html',
 		...options,
 	};
 	if (opts.keepTables) TABLE_TAGS.forEach((t) => opts.allowedTags.add(t));
@@ -276,10 +289,19 @@ export function cleanDocumentForLLM(doc: Document, options?: Partial<CleanOption
 	// 4a) Remove comments (unwrapping can move comment nodes around)
 	stats.removedComments += removeComments(body);
 
-	if (opts.outputMinimalText) {
+	const outputFormat = opts.outputMinimalText ? 'minimal-text' : opts.outputFormat;
+	if (outputFormat === 'minimal-text') {
 		const minimalText = documentToMinimalText(doc);
 		return { output: minimalText, textLength: textLength(minimalText), stats };
 	}
+	if (outputFormat === 'markdown') {
+		const markdown = documentToMarkdown(doc);
+		return { output: markdown, textLength: textLength(body.textContent ?? ''), stats };
+	}
+	if (outputFormat === 'outline-json') {
+		const outline = JSON.stringify(documentToOutline(doc));
+		return { output: outline, textLength: textLength(body.textContent ?? ''), stats };
+	}
 
 	// 5) Whitespace normalization
 	// Convert <br> to newline tokens to help later collapse, then restore
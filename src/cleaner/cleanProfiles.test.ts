@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { CLEAN_PROFILE_NAMES, resolveCleanOptions } from './cleanProfiles.js';
+import { cleanHtmlForLLM, RECIPE_MINIMAL_TAGS } from './cleanHtmlForLLM.js';
+import { nodeDomAdapter } from './nodeDomAdapter.js';
+
+describe('resolveCleanOptions', () => {
+	it('returns fresh options for every call', () => {
+		for (const profile of CLEAN_PROFILE_NAMES) {
+			const first = resolveCleanOptions(profile);
+			first.allowedTags?.add('div');
+			expect(resolveCleanOptions(profile).allowedTags?.has('div')).toBe(false);
+		}
+	});
+
+	it('overrides individual fields of the profile', () => {
+		const options = resolveCleanOptions('recipe-minimal', { keepTables: true, dropMedia: undefined });
+		expect(options.keepTables).toBe(true);
+		expect(options.dropMedia).toBe(true);
+		expect(options.allowedTags).toEqual(new Set(RECIPE_MINIMAL_TAGS));
+	});
+
+	it('keeps tables with recipe-with-tables', () => {
+		const html = '<html><body><p>Nutrition</p><table><tr><td>Calories</td><td>250</td></tr></table></body></html>';
+		expect(cleanHtmlForLLM(html, nodeDomAdapter, resolveCleanOptions('recipe-minimal')).output).not.toContain(
+			'<table>',
+		);
+		expect(cleanHtmlForLLM(html, nodeDomAdapter, resolveCleanOptions('recipe-with-tables')).output).toContain(
+			'<td>Calories</td>',
+		);
+	});
+});
@@ -0,0 +1,54 @@
+import { CleanOptions, DEFAULT_ALLOWED_TAGS, RECIPE_MINIMAL_TAGS } from './cleanHtmlForLLM.js';
+
+export const CLEAN_PROFILE_NAMES = ['recipe-minimal', 'default', 'recipe-with-tables', 'recipe-with-images'] as const;
+
+export type CleanProfileName = (typeof CLEAN_PROFILE_NAMES)[number];
+
+/**
+ * Named sets of `CleanOptions`, shared by the server and the CLI. Each call returns fresh options, because the
+ * cleaner adds to `allowedTags`.
+ */
+export const CLEAN_PROFILES: Record<CleanProfileName, () => Partial<CleanOptions>> = {
+	/** Text-only recipe content: headings, paragraphs, lists and links. */
+	'recipe-minimal': () => ({
+		allowedTags: new Set(RECIPE_MINIMAL_TAGS),
+		keepTables: false,
+		dropMedia: true,
+	}),
+	/** The defaults of `cleanHtmlForLLM`. */
+	default: () => ({
+		allowedTags: new Set(DEFAULT_ALLOWED_TAGS),
+		keepTables: false,
+		dropMedia: true,
+	}),
+	/** Like `recipe-minimal`, keeping tables such as nutrition facts. */
+	'recipe-with-tables': () => ({
+		allowedTags: new Set(RECIPE_MINIMAL_TAGS),
+		keepTables: true,
+		dropMedia: true,
+	}),
+	/** Like `recipe-minimal`, keeping images with http(s) sources. */
+	'recipe-with-images': () => ({
+		allowedTags: new Set([...RECIPE_MINIMAL_TAGS, 'img']),
+		keepTables: false,
+		dropMedia: false,
+	}),
+};
+
+export function isCleanProfileName(name: string): name is CleanProfileName {
+	return (CLEAN_PROFILE_NAMES as readonly string[]).includes(name);
+}
+
+/**
+ * The options of a profile, with individual fields overridden.
+ */
+export function resolveCleanOptions(
+	profile: CleanProfileName,
+	overrides: Partial<CleanOptions> = {},
+): Partial<CleanOptions> {
+	const options: Partial<CleanOptions> = CLEAN_PROFILES[profile]();
+	for (const [name, value] of Object.entries(overrides)) {
+		if (value !== undefined) Object.assign(options, { [name]: value });
+	}
+	return options;
+}
@@ -0,0 +1,31 @@
+// @vitest-environment jsdom
+
+import { describe, it, expect } from 'vitest';
+import { flattenDeclarativeShadowDomInHtml } from './flattenShadowDom.js';
+import { nodeDomAdapter } from './nodeDomAdapter.js';
+import { cleanHtmlForLLM } from './cleanHtmlForLLM.js';
+
+describe('flattenDeclarativeShadowDomInHtml', () => {
+	it('moves shadow content into the light DOM, filling slots', () => {
+		const input = `<!doctype html><html><body><recipe-card>
+			<template shadowrootmode="open">
+				<h2><slot name="title">Untitled</slot></h2>
+				<ingredient-list><template shadowrootmode="open"><ul><li>2 eggs</li></ul></template></ingredient-list>
+				<p><slot></slot></p>
+				<p><slot name="note">No notes</slot></p>
+			</template>
+			<span slot="title">Pancakes</span>Fluffy and quick.
+		</recipe-card></body></html>`;
+
+		const flattened = flattenDeclarativeShadowDomInHtml(input, nodeDomAdapter);
+		expect(flattened).not.toContain('template');
+		expect(cleanHtmlForLLM(flattened, nodeDomAdapter, { outputFormat: 'minimal-text' }).output).toBe(
+			'## Pancakes\n\n- 2 eggs\n\nFluffy and quick.\n\nNo notes',
+		);
+	});
+
+	it('returns documents without shadow roots unchanged', () => {
+		const input = '<html><body><p>Hello</p></body></html>';
+		expect(flattenDeclarativeShadowDomInHtml(input, nodeDomAdapter)).toBe(input);
+	});
+});
@@ -0,0 +1,46 @@
+import { HtmlToDocumentAdapter } from './HtmlToDocumentAdapter.js';
+
+const DECLARATIVE_SHADOW_ROOT_SELECTOR = 'template[shadowrootmode], template[shadowroot]';
+
+export function flattenDeclarativeShadowDomInHtml(html: string, adapter: HtmlToDocumentAdapter): string {
+	const doc = adapter.parse(html);
+	if (flattenDeclarativeShadowDom(doc) === 0) return html;
+	return `<!DOCTYPE html>${doc.documentElement.outerHTML}`;
+}
+
+/**
+ * Replace the children of declarative shadow DOM hosts (`<template shadowrootmode>`) with the content of their
+ * shadow root, with each `<slot>` replaced by the light DOM nodes assigned to it, or by its fallback content.
+ * The result is the DOM as the user sees it, which is what the cleaner and the JSON-LD extraction expect.
+ * @returns The number of shadow roots flattened
+ */
+export function flattenDeclarativeShadowDom(root: ParentNode): number {
+	let count = 0;
+	for (const template of Array.from(root.querySelectorAll(DECLARATIVE_SHADOW_ROOT_SELECTOR))) {
+		const host = template.parentElement;
+		if (!host) continue;
+		const content = shadowContent(template as HTMLTemplateElement);
+		// Shadow roots nested in this one
+		count += flattenDeclarativeShadowDom(content);
+
+		const lightNodes = Array.from(host.childNodes).filter((node) => node !== template);
+		for (const slot of Array.from(content.querySelectorAll('slot'))) {
+			const name = slot.getAttribute('name') ?? '';
+			const assigned = lightNodes.filter((node) => slotNameOf(node) === name);
+			slot.replaceWith(...(assigned.length > 0 ? assigned : Array.from(slot.childNodes)));
+		}
+		host.replaceChildren(...Array.from(content.childNodes));
+		count++;
+	}
+	return count;
+}
+
+function shadowContent(template: HTMLTemplateElement): ParentNode {
+	// DOM implementations without template contents keep them as children
+	return template.content && template.content.childNodes.length > 0 ? template.content : template;
+}
+
+function slotNameOf(node: Node): string {
+	if (node.nodeType !== 1 /* Node.ELEMENT_NODE */) return '';
+	return (node as Element).getAttribute('slot') ?? '';
+}
@@ -0,0 +1,37 @@
+// @vitest-environment jsdom
+
+import { describe, it, expect } from 'vitest';
+import { htmlToMarkdown } from './htmlToMarkdown.js';
+import { nodeDomAdapter } from './nodeDomAdapter.js';
+
+describe('htmlToMarkdown', () => {
+	it('converts cleaned HTML to Markdown', () => {
+		const input = `<!doctype html><html><body>
+			<h1>Pancakes</h1>
+			<p>The <strong>best</strong> pancakes, from <a href="https://example.com/">my_blog</a>.</p>
+			<h2>Ingredients</h2>
+			<ul>
+				<li>2 eggs</li>
+				<li>Flour
+					<ol><li>sifted</li><li>weighed</li></ol>
+				</li>
+			</ul>
+			<table><tr><th>Serves</th><th>Time</th></tr><tr><td>4</td><td>20 min</td></tr></table>
+		</body></html>`;
+
+		expect(htmlToMarkdown(input, nodeDomAdapter)).toBe(`# Pancakes
+
+The **best** pancakes, from [my\\_blog](https://example.com/).
+
+## Ingredients
+
+- 2 eggs
+- Flour
+   1. sifted
+   2. weighed
+
+| Serves | Time |
+| --- | --- |
+| 4 | 20 min |`);
+	});
+});
@@ -0,0 +1,147 @@
+import { HtmlToDocumentAdapter } from './HtmlToDocumentAdapter.js';
+import { getBodyElement } from './getBodyElement.js';
+
+const HEADING_TAGS = new Set(['h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+const LIST_TAGS = new Set(['ul', 'ol']);
+const BLOCK_TAGS = new Set([...HEADING_TAGS, ...LIST_TAGS, 'p', 'li', 'table', 'thead', 'tbody', 'tfoot', 'tr']);
+
+export function htmlToMarkdown(html: string, adapter: HtmlToDocumentAdapter): string {
+	const doc = adapter.parse(html);
+	return documentToMarkdown(doc);
+}
+
+/**
+ * Convert a cleaned document (see `cleanDocumentForLLM`) to Markdown. Only the tags kept by the cleaner are
+ * rendered specially: headings, paragraphs, lists, tables, emphasis and links; anything else contributes its text.
+ */
+export function documentToMarkdown(doc: Document): string {
+	const blocks = blocksOf(getBodyElement(doc), 0);
+	return blocks.join('\n\n').trim();
+}
+
+function blocksOf(parent: Element, listDepth: number): string[] {
+	const blocks: string[] = [];
+	let inlineBuffer = '';
+	const flushInline = () => {
+		const text = normalizeLines(inlineBuffer);
+		if (text) blocks.push(text);
+		inlineBuffer = '';
+	};
+
+	for (const child of Array.from(parent.childNodes)) {
+		if (child.nodeType === 1 && BLOCK_TAGS.has((child as Element).tagName.toLowerCase())) {
+			flushInline();
+			const block = blockToMarkdown(child as Element, listDepth);
+			if (block) blocks.push(block);
+			continue;
+		}
+		inlineBuffer += inlineToMarkdown(child);
+	}
+	flushInline();
+	return blocks;
+}
+
+function blockToMarkdown(el: Element, listDepth: number): string {
+	const tag = el.tagName.toLowerCase();
+	if (HEADING_TAGS.has(tag)) {
+		const text = inlineToMarkdown(el).replace(/\s+/g, ' ').trim();
+		return text ? `${'#'.repeat(Number(tag[1]))} ${text}` : '';
+	}
+	if (LIST_TAGS.has(tag)) return listToMarkdown(el, listDepth);
+	if (tag === 'table') return tableToMarkdown(el);
+	if (tag === 'li') return listItemToMarkdown(el, '-', listDepth);
+	if (tag === 'p') return normalizeLines(inlineToMarkdown(el));
+	// Table sections and rows outside of a table
+	return blocksOf(el, listDepth).join('\n\n');
+}
+
+function listToMarkdown(list: Element, depth: number): string {
+	const ordered = list.tagName.toLowerCase() === 'ol';
+	const items = Array.from(list.children).filter((child) => child.tagName.toLowerCase() === 'li');
+	return items
+		.map((item, index) => listItemToMarkdown(item, ordered ? `${index + 1}.` : '-', depth))
+		.filter(Boolean)
+		.join('\n');
+}
+
+function listItemToMarkdown(item: Element, marker: string, depth: number): string {
+	const indent = '   '.repeat(depth);
+	let inline = '';
+	const nested: string[] = [];
+	for (const child of Array.from(item.childNodes)) {
+		if (child.nodeType === 1 && LIST_TAGS.has((child as Element).tagName.toLowerCase())) {
+			nested.push(listToMarkdown(child as Element, depth + 1));
+			continue;
+		}
+		if (child.nodeType === 1 && (child as Element).tagName.toLowerCase() === 'p') {
+			inline += ` ${inlineToMarkdown(child)} `;
+			continue;
+		}
+		inline += inlineToMarkdown(child);
+	}
+	const text = inline.replace(/\s+/g, ' ').trim();
+	const lines = text ? [`${indent}${marker} ${text}`] : [];
+	return [...lines, ...nested.filter(Boolean)].join('\n');
+}
+
+function tableToMarkdown(table: Element): string {
+	const rows = Array.from(table.querySelectorAll('tr'))
+		.map((row) =>
+			Array.from(row.querySelectorAll('th, td')).map((cell) =>
+				inlineToMarkdown(cell).replace(/\s+/g, ' ').trim().replace(/\|/g, '\\|'),
+			),
+		)
+		.filter((cells) => cells.length > 0);
+	if (rows.length === 0) return '';
+
+	const width = Math.max(...rows.map((cells) => cells.length));
+	const line = (cells: string[]) => `| ${Array.from({ length: width }, (_, i) => cells[i] ?? '').join(' | ')} |`;
+	return [line(rows[0]), line(Array(width).fill('---')), ...rows.slice(1).map(line)].join('\n');
+}
+
+function inlineToMarkdown(node: Node): string {
+	// Only <br> breaks lines; newlines in the source are plain whitespace
+	if (node.nodeType === 3) return escapeMarkdown((node.textContent ?? '').replace(/\s+/g, ' '));
+	if (node.nodeType !== 1) return '';
+
+	const el = node as Element;
+	const tag = el.tagName.toLowerCase();
+	if (tag === 'br') return '\n';
+
+	const inner = Array.from(el.childNodes).map(inlineToMarkdown).join('');
+	switch (tag) {
+		case 'strong':
+		case 'b':
+			return wrapEmphasis(inner, '**');
+		case 'em':
+		case 'i':
+			return wrapEmphasis(inner, '*');
+		case 'a': {
+			const href = el.getAttribute('href');
+			const text = inner.replace(/\s+/g, ' ').trim();
+			if (!href || !text) return inner;
+			return `[${text}](${href.replace(/[()\s]/g, encodeURIComponent)})`;
+		}
+		default:
+			return inner;
+	}
+}
+
+/** Emphasis markers must hug the text, so keep surrounding whitespace outside of them. */
+function wrapEmphasis(text: string, marker: string): string {
+	const match = /^(\s*)([\s\S]*?)(\s*)$/.exec(text)!;
+	return match[2] ? `${match[1]}${marker}${match[2]}${marker}${match[3]}` : text;
+}
+
+function escapeMarkdown(text: string): string {
+	return text.replace(/([\\`*_[\]])/g, '\\$1');
+}
+
+/** Collapse whitespace within lines, and keep explicit line breaks as Markdown hard breaks. */
+function normalizeLines(text: string): string {
+	return text
+		.split('\n')
+		.map((line) => line.replace(/\s+/g, ' ').trim())
+		.filter(Boolean)
+		.join('  \n');
+}
@@ -0,0 +1,49 @@
+// @vitest-environment jsdom
+
+import { describe, it, expect } from 'vitest';
+import { htmlToOutline } from './htmlToOutline.js';
+import { nodeDomAdapter } from './nodeDomAdapter.js';
+
+describe('htmlToOutline', () => {
+	it('groups blocks into sections by heading', () => {
+		const input = `<!doctype html><html><body>
+			<p>Intro</p>
+			<h2>Ingredients</h2>
+			<ul><li>2 eggs</li><li>Flour<ul><li>sifted</li></ul></li></ul>
+			<h2>Instructions</h2>
+			<ol><li>Mix</li><li>Fry</li></ol>
+			<table><tr><td>Serves</td><td>4</td></tr></table>
+		</body></html>`;
+
+		expect(htmlToOutline(input, nodeDomAdapter)).toEqual({
+			sections: [
+				{ level: 0, blocks: [{ type: 'paragraph', text: 'Intro' }] },
+				{
+					heading: 'Ingredients',
+					level: 2,
+					blocks: [
+						{
+							type: 'list',
+							ordered: false,
+							items: [
+								{ text: '2 eggs' },
+								{
+									text: 'Flour',
+									lists: [{ type: 'list', ordered: false, items: [{ text: 'sifted' }] }],
+								},
+							],
+						},
+					],
+				},
+				{
+					heading: 'Instructions',
+					level: 2,
+					blocks: [
+						{ type: 'list', ordered: true, items: [{ text: 'Mix' }, { text: 'Fry' }] },
+						{ type: 'table', rows: [['Serves', '4']] },
+					],
+				},
+			],
+		});
+	});
+});
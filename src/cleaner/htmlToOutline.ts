@@ -0,0 +1,146 @@
+import { HtmlToDocumentAdapter } from './HtmlToDocumentAdapter.js';
+import { getBodyElement } from './getBodyElement.js';
+
+export interface DocumentOutline {
+	sections: OutlineSection[];
+}
+
+/** The content under one heading, up to the next heading of any level. */
+export interface OutlineSection {
+	/** Absent for the content before the first heading. */
+	heading?: string;
+	/** 1-6 for `h1`-`h6`, 0 for the content before the first heading. */
+	level: number;
+	blocks: OutlineBlock[];
+}
+
+export type OutlineBlock = OutlineParagraph | OutlineList | OutlineTable;
+
+export interface OutlineParagraph {
+	type: 'paragraph';
+	text: string;
+}
+
+export interface OutlineList {
+	type: 'list';
+	ordered: boolean;
+	items: OutlineListItem[];
+}
+
+export interface OutlineListItem {
+	text: string;
+	/** Lists nested in the item. */
+	lists?: OutlineList[];
+}
+
+export interface OutlineTable {
+	type: 'table';
+	rows: string[][];
+}
+
+const HEADING_TAGS = new Set(['h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+const LIST_TAGS = new Set(['ul', 'ol']);
+const BLOCK_TAGS = new Set([...HEADING_TAGS, ...LIST_TAGS, 'p', 'li', 'table', 'thead', 'tbody', 'tfoot', 'tr']);
+
+export function htmlToOutline(html: string, adapter: HtmlToDocumentAdapter): DocumentOutline {
+	const doc = adapter.parse(html);
+	return documentToOutline(doc);
+}
+
+/**
+ * Describe a cleaned document (see `cleanDocumentForLLM`) as a flat list of sections, each holding the paragraphs,
+ * lists and tables under its heading.
+ */
+export function documentToOutline(doc: Document): DocumentOutline {
+	const sections: OutlineSection[] = [];
+	let current: OutlineSection = { level: 0, blocks: [] };
+	const startSection = (heading: string, level: number) => {
+		if (current.heading !== undefined || current.blocks.length > 0) sections.push(current);
+		current = { heading, level, blocks: [] };
+	};
+	const addBlock = (block: OutlineBlock | undefined) => {
+		if (block) current.blocks.push(block);
+	};
+
+	const visit = (parent: Element) => {
+		let inlineBuffer = '';
+		const flushInline = () => {
+			addBlock(paragraph(inlineBuffer));
+			inlineBuffer = '';
+		};
+		for (const child of Array.from(parent.childNodes)) {
+			if (child.nodeType !== 1 || !BLOCK_TAGS.has((child as Element).tagName.toLowerCase())) {
+				inlineBuffer += textOf(child);
+				continue;
+			}
+			flushInline();
+			const el = child as Element;
+			const tag = el.tagName.toLowerCase();
+			if (HEADING_TAGS.has(tag)) {
+				startSection(normalize(textOf(el)), Number(tag[1]));
+			} else if (LIST_TAGS.has(tag)) {
+				addBlock(list(el));
+			} else if (tag === 'table') {
+				addBlock(table(el));
+			} else if (tag === 'p') {
+				addBlock(paragraph(textOf(el)));
+			} else if (tag === 'li') {
+				addBlock({ type: 'list', ordered: false, items: [listItem(el)] });
+			} else {
+				visit(el);
+			}
+		}
+		flushInline();
+	};
+
+	visit(getBodyElement(doc));
+	if (current.heading !== undefined || current.blocks.length > 0) sections.push(current);
+	return { sections };
+}
+
+function paragraph(text: string): OutlineParagraph | undefined {
+	const normalized = normalize(text);
+	return normalized ? { type: 'paragraph', text: normalized } : undefined;
+}
+
+function list(el: Element): OutlineList | undefined {
+	const items = Array.from(el.children)
+		.filter((child) => child.tagName.toLowerCase() === 'li')
+		.map(listItem)
+		.filter((item) => item.text || item.lists);
+	return items.length > 0 ? { type: 'list', ordered: el.tagName.toLowerCase() === 'ol', items } : undefined;
+}
+
+function listItem(li: Element): OutlineListItem {
+	let text = '';
+	const lists: OutlineList[] = [];
+	for (const child of Array.from(li.childNodes)) {
+		if (child.nodeType === 1 && LIST_TAGS.has((child as Element).tagName.toLowerCase())) {
+			const nested = list(child as Element);
+			if (nested) lists.push(nested);
+			continue;
+		}
+		text += ` ${textOf(child)} `;
+	}
+	const item: OutlineListItem = { text: normalize(text) };
+	if (lists.length > 0) item.lists = lists;
+	return item;
+}
+
+function table(el: Element): OutlineTable | undefined {
+	const rows = Array.from(el.querySelectorAll('tr'))
+		.map((row) => Array.from(row.querySelectorAll('th, td')).map((cell) => normalize(textOf(cell))))
+		.filter((cells) => cells.some(Boolean));
+	return rows.length > 0 ? { type: 'table', rows } : undefined;
+}
+
+function textOf(node: Node): string {
+	if (node.nodeType === 3) return node.textContent ?? '';
+	if (node.nodeType !== 1) return '';
+	if ((node as Element).tagName.toLowerCase() === 'br') return '\n';
+	return Array.from(node.childNodes).map(textOf).join('');
+}
+
+function normalize(text: string): string {
+	return text.replace(/\s+/g, ' ').trim();
+}
@@ -1,6 +1,6 @@
 import { getBodyElement } from './getBodyElement.js';
 
-const CONSENT_SELECTORS = [
+export const CONSENT_SELECTORS = [
 	// OneTrust
 	'#onetrust-banner-sdk',
 	'#onetrust-consent-sdk',
@@ -19,6 +19,7 @@ const CONSENT_SELECTORS = [
 	'#CookiebotWidget',
 	// Iubenda
 	'.iubenda-cs-container',
+	'#iubenda-cs-banner',
 	'.iubenda-cs-overlay',
 	'[class*="iubenda" i]',
 	// Osano / generic
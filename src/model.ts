@@ -1,3 +1,60 @@
+import type { ResourcePolicy } from 'app/render/model.js';
+import type { ArtifactsConfig } from 'app/render/ArtifactStore.js';
+import type { ClientLimits } from 'app/util/ClientQuotas.js';
+import type { Priority } from 'app/util/Semaphore.js';
+
 export interface Config {
 	hardTimeoutMs: number;
+	/** Upper limit of JSON request bodies. */
+	maxRequestBodyBytes: number;
+	jobs: JobsConfig;
+	cache: CacheConfig;
+	/** Subresources blocked unless a request brings its own policy. */
+	resourcePolicy: Required<ResourcePolicy>;
+	artifacts: ArtifactsConfig;
+	queue: QueueConfig;
+	readiness: ReadinessConfig;
+	auth: AuthConfig;
+}
+
+export interface QueueConfig {
+	/** Longest wait of a synchronous render for a slot. */
+	maxWaitMs: number;
+}
+
+export interface AuthConfig {
+	/** Keys accepted on the render routes; authentication is disabled when there are none. */
+	apiKeys: ApiKeyConfig[];
+	/** Limits of the keys that do not set their own. */
+	defaultLimits: ClientLimits;
+}
+
+export interface ApiKeyConfig {
+	/** Identifies the key in logs and responses. */
+	id: string;
+	key: string;
+	limits?: Partial<ClientLimits>;
+	/** Priority of the renders of the key that do not set one. */
+	priority?: Priority;
+}
+
+export interface ReadinessConfig {
+	/** The service reports not ready while this many renders wait for a slot. */
+	maxQueueLength: number;
+}
+
+export interface JobsConfig {
+	/** Maximum number of render jobs kept in memory, finished or not. */
+	maxJobs: number;
+	/** How long the outcome of a finished render job can be retrieved. */
+	resultTtlMs: number;
+}
+
+export interface CacheConfig {
+	/** How long a cached render is served without revalidation. */
+	ttlMs: number;
+	/** Maximum number of cached renders; 0 disables the cache. */
+	maxEntries: number;
+	/** Keep the cache in this directory instead of memory. */
+	dir?: string;
 }
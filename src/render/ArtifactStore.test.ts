@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { ArtifactsConfig, ArtifactStore, isArtifactCaptureMode } from 'app/render/ArtifactStore.js';
+
+let dir: string;
+
+function config(overrides: Partial<ArtifactsConfig> = {}): ArtifactsConfig {
+	return {
+		dir,
+		capture: 'on-failure',
+		har: true,
+		screenshot: true,
+		trace: false,
+		maxAgeMs: 60_000,
+		maxTotalBytes: 1024 * 1024,
+		...overrides,
+	};
+}
+
+describe('ArtifactStore', () => {
+	beforeEach(async () => {
+		dir = await fs.mkdtemp(path.join(os.tmpdir(), 'dw-artifacts-'));
+	});
+
+	afterEach(async () => {
+		await fs.rm(dir, { recursive: true, force: true });
+	});
+
+	it('keeps the artifacts of failed renders only when capturing on failure', async () => {
+		const store = new ArtifactStore(config());
+
+		const ok = (await store.startSession())!;
+		await fs.writeFile(ok.harPath!, '{}');
+		await expect(ok.finish(false)).resolves.toBeUndefined();
+		await expect(store.list(ok.id)).resolves.toBeUndefined();
+
+		const failed = (await store.startSession())!;
+		await fs.writeFile(failed.harPath!, '{}');
+		await expect(failed.finish(true)).resolves.toBe(failed.id);
+		await expect(store.list(failed.id)).resolves.toEqual(['render.har']);
+	});
+
+	it('captures nothing when off', async () => {
+		await expect(new ArtifactStore(config({ capture: 'off' })).startSession()).resolves.toBeUndefined();
+	});
+
+	it('resolves only known artifact names of well-formed ids', async () => {
+		const store = new ArtifactStore(config());
+		const id = '123e4567-e89b-12d3-a456-426614174000';
+
+		expect(store.resolve(id, 'render.har')).toBe(path.join(dir, id, 'render.har'));
+		expect(store.resolve(id, '../../etc/passwd')).toBeUndefined();
+		expect(store.resolve('..', 'render.har')).toBeUndefined();
+	});
+
+	it('prunes the oldest artifacts beyond the total size', async () => {
+		const store = new ArtifactStore(config({ capture: 'always', maxTotalBytes: 150 }));
+		const first = (await store.startSession())!;
+		await fs.writeFile(first.harPath!, 'x'.repeat(100));
+		const old = new Date(Date.now() - 10_000);
+		await fs.utimes(path.join(dir, first.id), old, old);
+		const second = (await store.startSession())!;
+		await fs.writeFile(second.harPath!, 'x'.repeat(100));
+
+		await store.prune();
+
+		await expect(store.list(first.id)).resolves.toBeUndefined();
+		await expect(store.list(second.id)).resolves.toEqual(['render.har']);
+	});
+});
+
+describe('isArtifactCaptureMode', () => {
+	it('accepts the known modes only', () => {
+		expect(['off', 'on-failure', 'always'].every(isArtifactCaptureMode)).toBe(true);
+		expect(isArtifactCaptureMode('alway')).toBe(false);
+		expect(isArtifactCaptureMode('')).toBe(false);
+	});
+});
@@ -0,0 +1,176 @@
+import { randomUUID } from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { BrowserContext, Page } from 'playwright';
+import { logger } from 'app/util/Logger.js';
+
+export const ARTIFACT_CAPTURE_MODES = ['off', 'on-failure', 'always'] as const;
+
+export type ArtifactCaptureMode = (typeof ARTIFACT_CAPTURE_MODES)[number];
+
+export interface ArtifactsConfig {
+	/** Directory holding one subdirectory of artifacts per render. */
+	dir: string;
+	/** When to keep the artifacts of a render. */
+	capture: ArtifactCaptureMode;
+	/** Record a HAR with embedded content. */
+	har: boolean;
+	/** Take a full-page screenshot when the render fails. */
+	screenshot: boolean;
+	/** Record a Playwright trace; expensive, meant for chasing specific problems. */
+	trace: boolean;
+	/** Artifacts older than this are deleted. */
+	maxAgeMs: number;
+	/** The oldest artifacts are deleted while the total size exceeds this. */
+	maxTotalBytes: number;
+	/** Bearer token required to download artifacts; the download endpoint is disabled without it. */
+	accessToken?: string;
+}
+
+export const ARTIFACT_NAMES = ['render.har', 'screenshot.png', 'trace.zip'] as const;
+
+export type ArtifactName = (typeof ARTIFACT_NAMES)[number];
+
+const ARTIFACT_ID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/**
+ * Keeps the debugging artifacts of renders on disk, within the configured age and size limits.
+ */
+export class ArtifactStore {
+	private pruning: Promise<void> | null = null;
+
+	constructor(readonly config: ArtifactsConfig) {}
+
+	/**
+	 * @returns A session collecting the artifacts of one render, or undefined if capture is off
+	 */
+	async startSession(): Promise<ArtifactSession | undefined> {
+		if (this.config.capture === 'off') return undefined;
+		const id = randomUUID();
+		const dir = path.join(this.config.dir, id);
+		await fs.mkdir(dir, { recursive: true });
+		return new ArtifactSession(this, id, dir);
+	}
+
+	/**
+	 * @returns The names of the artifacts kept for a render, or undefined if there are none
+	 */
+	async list(id: string): Promise<ArtifactName[] | undefined> {
+		if (!ARTIFACT_ID_RE.test(id)) return undefined;
+		try {
+			const names = await fs.readdir(path.join(this.config.dir, id));
+			return ARTIFACT_NAMES.filter((name) => names.includes(name));
+		} catch {
+			return undefined;
+		}
+	}
+
+	/**
+	 * @returns The path of an artifact file, or undefined if the id or name is not valid
+	 */
+	resolve(id: string, name: string): string | undefined {
+		if (!ARTIFACT_ID_RE.test(id) || !(ARTIFACT_NAMES as readonly string[]).includes(name)) return undefined;
+		return path.join(this.config.dir, id, name);
+	}
+
+	/** Delete artifacts beyond the age and total size limits; concurrent calls share one pass. */
+	prune(): Promise<void> {
+		this.pruning ??= this.doPrune().finally(() => {
+			this.pruning = null;
+		});
+		return this.pruning;
+	}
+
+	private async doPrune() {
+		const entries = await fs.readdir(this.config.dir, { withFileTypes: true }).catch(() => []);
+		const renders = await Promise.all(
+			entries
+				.filter((entry) => entry.isDirectory() && ARTIFACT_ID_RE.test(entry.name))
+				.map((entry) => describeDir(path.join(this.config.dir, entry.name))),
+		);
+		renders.sort((a, b) => a.mtimeMs - b.mtimeMs);
+
+		const now = Date.now();
+		let totalBytes = renders.reduce((sum, render) => sum + render.bytes, 0);
+		for (const render of renders) {
+			if (now - render.mtimeMs < this.config.maxAgeMs && totalBytes <= this.config.maxTotalBytes) break;
+			await fs.rm(render.dir, { recursive: true, force: true });
+			totalBytes -= render.bytes;
+		}
+	}
+}
+
+/**
+ * The artifacts of a single render. Call `beforeClose()` before closing the browser context, and `finish()` after.
+ */
+export class ArtifactSession {
+	private tracing = false;
+	private closed = false;
+
+	constructor(
+		private readonly store: ArtifactStore,
+		readonly id: string,
+		private readonly dir: string,
+	) {}
+
+	/** Where the browser context should record the HAR, if enabled. */
+	get harPath(): string | undefined {
+		return this.store.config.har ? path.join(this.dir, 'render.har') : undefined;
+	}
+
+	async startTracing(context: BrowserContext) {
+		if (!this.store.config.trace) return;
+		await context.tracing.start({ screenshots: true, snapshots: true });
+		this.tracing = true;
+	}
+
+	/**
+	 * Save what has to be taken from a live context: the trace, and a screenshot of the page if the render failed.
+	 */
+	async beforeClose(context: BrowserContext, page: Page | null, failed: boolean) {
+		if (this.closed) return;
+		this.closed = true;
+		const keep = failed || this.store.config.capture === 'always';
+		if (failed && page && this.store.config.screenshot) {
+			await page
+				.screenshot({ path: path.join(this.dir, 'screenshot.png'), fullPage: true })
+				.catch((err) => logger.warn('Failed to take the failure screenshot', { err }));
+		}
+		if (this.tracing) {
+			await context.tracing
+				.stop(keep ? { path: path.join(this.dir, 'trace.zip') } : undefined)
+				.catch((err) => logger.warn('Failed to stop tracing', { err }));
+		}
+	}
+
+	/**
+	 * Keep or discard the artifacts, once the browser context has been closed.
+	 * @returns The artifact id if the artifacts were kept
+	 */
+	async finish(failed: boolean): Promise<string | undefined> {
+		const keep = failed || this.store.config.capture === 'always';
+		if (!keep) {
+			await fs.rm(this.dir, { recursive: true, force: true });
+		}
+		void this.store.prune().catch((err) => logger.warn('Failed to prune render artifacts', { err }));
+		return keep ? this.id : undefined;
+	}
+}
+
+export function isArtifactCaptureMode(value: string): value is ArtifactCaptureMode {
+	return (ARTIFACT_CAPTURE_MODES as readonly string[]).includes(value);
+}
+
+async function describeDir(dir: string): Promise<{ dir: string; mtimeMs: number; bytes: number }> {
+	const stat = await fs.stat(dir).catch(() => null);
+	const names = await fs.readdir(dir).catch(() => [] as string[]);
+	const sizes = await Promise.all(
+		names.map((name) =>
+			fs.stat(path.join(dir, name)).then(
+				(s) => s.size,
+				() => 0,
+			),
+		),
+	);
+	return { dir, mtimeMs: stat?.mtimeMs ?? 0, bytes: sizes.reduce((sum, size) => sum + size, 0) };
+}
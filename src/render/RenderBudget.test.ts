@@ -0,0 +1,68 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { PhaseTimeoutError, RenderBudget } from 'app/render/RenderBudget.js';
+
+describe('RenderBudget', () => {
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('keeps the shares of the later phases and carries unused time over', () => {
+		let now = 0;
+		const budget = new RenderBudget(10000, () => now);
+		expect(budget.budgetFor('queue')).toBe(4000);
+		expect(budget.budgetFor('navigation')).toBe(6500);
+
+		now = 1000;
+		expect(budget.budgetFor('waiting')).toBe(7000);
+		expect(budget.budgetFor('cleaning')).toBe(9000);
+	});
+
+	it('aborts a phase that overruns its budget and records its time', async () => {
+		vi.useFakeTimers();
+		const budget = new RenderBudget(10000);
+		let signal: AbortSignal | undefined;
+		const phase = budget.run('navigation', (phaseSignal, budgetMs) => {
+			signal = phaseSignal;
+			expect(budgetMs).toBe(6500);
+			return new Promise<never>(() => undefined);
+		});
+		const rejected = expect(phase).rejects.toBeInstanceOf(PhaseTimeoutError);
+
+		await vi.advanceTimersByTimeAsync(6500);
+		await rejected;
+		expect(signal?.aborted).toBe(true);
+		expect(budget.timings).toEqual({ navigation: 6500 });
+		expect(budget.remainingMs()).toBe(3500);
+	});
+
+	it('passes on the abort of the caller', async () => {
+		const budget = new RenderBudget(10000);
+		const controller = new AbortController();
+		const phase = budget.run('capture', () => new Promise<never>(() => undefined), { signal: controller.signal });
+
+		controller.abort(new Error('gone'));
+		await expect(phase).rejects.toThrow('gone');
+	});
+
+	it('does not count unbounded phases against the budget', async () => {
+		vi.useFakeTimers();
+		const budget = new RenderBudget(10000);
+		const queued = budget.run('queue', () => new Promise((resolve) => setTimeout(resolve, 30000)), {
+			unbounded: true,
+		});
+		await vi.advanceTimersByTimeAsync(30000);
+		await queued;
+
+		expect(budget.timings).toEqual({ queue: 30000 });
+		expect(budget.remainingMs()).toBe(10000);
+	});
+
+	it('refuses synchronous phases once the budget is spent', () => {
+		let now = 0;
+		const budget = new RenderBudget(1000, () => now);
+		expect(budget.runSync('extraction', () => 'recipes')).toBe('recipes');
+
+		now = 1000;
+		expect(() => budget.runSync('cleaning', () => 'cleaned')).toThrow(PhaseTimeoutError);
+	});
+});
@@ -0,0 +1,160 @@
+import type { PhaseTimings, RenderPhase } from 'app/render/model.js';
+
+/** The phases of a render, in the order they run. */
+export const RENDER_PHASES = ['queue', 'navigation', 'waiting', 'capture', 'extraction', 'cleaning'] as const;
+
+/** Total budget of a render that does not set `timeout`. */
+export const DEFAULT_RENDER_TIMEOUT_MS = 20000;
+
+/**
+ * Percentage of the total budget kept for each phase: earlier phases may use whatever is left except the shares of
+ * the phases after them, so time saved early carries over to the later phases.
+ */
+const RESERVED_PERCENT: Record<RenderPhase, number> = {
+	queue: 0,
+	navigation: 25,
+	waiting: 15,
+	capture: 10,
+	extraction: 5,
+	cleaning: 5,
+};
+
+export class PhaseTimeoutError extends Error {
+	constructor(
+		readonly phase: RenderPhase,
+		budgetMs: number,
+	) {
+		super(`The ${phase} phase exceeded its budget of ${Math.round(budgetMs)}ms`);
+		this.name = 'PhaseTimeoutError';
+	}
+}
+
+export interface PhaseOptions {
+	/** Aborting it aborts the phase with the same reason. */
+	signal?: AbortSignal;
+	/** Let the phase take as long as it takes, and do not count its time against the total budget. */
+	unbounded?: boolean;
+}
+
+/** Limits of one step of a phase, from the signal and budget that `RenderBudget.run` passes to the phase. */
+export interface StepLimits {
+	/** Stop the step, including its work inside the page, when it aborts. */
+	signal?: AbortSignal;
+	/** Longest time the step may take. */
+	budgetMs?: number;
+}
+
+/**
+ * The Playwright timeout of a step that may take at most `limitMs` and must end by `deadline`. It is never 0, which
+ * Playwright takes as no limit at all.
+ */
+export function playwrightTimeout(limitMs: number, deadline = Infinity): number {
+	return Math.max(Math.round(Math.min(limitMs, deadline - Date.now())), 1);
+}
+
+/** A signal that aborts with the signal of the step, or with a timeout once the budget of the step is spent. */
+export function limitSignal({ signal, budgetMs = Infinity }: StepLimits): AbortSignal | undefined {
+	if (!Number.isFinite(budgetMs)) return signal;
+	const timeout = AbortSignal.timeout(Math.max(Math.round(budgetMs), 0));
+	return signal ? AbortSignal.any([signal, timeout]) : timeout;
+}
+
+/**
+ * Settle with `work`, or reject with the reason of the signal as soon as it aborts. Browser calls cannot be cancelled,
+ * so the work itself goes on until it ends or its context is closed.
+ */
+export function abortable<T>(work: Promise<T>, signal: AbortSignal | undefined): Promise<T> {
+	if (!signal) return work;
+	return new Promise<T>((resolve, reject) => {
+		const onAbort = () => reject(signal.reason);
+		if (signal.aborted) onAbort();
+		signal.addEventListener('abort', onAbort, { once: true });
+		work.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+	});
+}
+
+/**
+ * Divides the total time budget of a render across its phases, cancels the phases that overrun theirs and records
+ * how long each phase took.
+ */
+export class RenderBudget {
+	private deadline: number;
+	private readonly phaseTimings: PhaseTimings = {};
+
+	constructor(
+		readonly totalMs: number,
+		private readonly now: () => number = Date.now,
+	) {
+		this.deadline = now() + totalMs;
+	}
+
+	/** The time a phase starting now may take. */
+	budgetFor(phase: RenderPhase): number {
+		const later = RENDER_PHASES.slice(RENDER_PHASES.indexOf(phase) + 1);
+		const reserved = (later.reduce((sum, next) => sum + RESERVED_PERCENT[next], 0) * this.totalMs) / 100;
+		return this.deadline - this.now() - reserved;
+	}
+
+	/** Time left until the end of the budget. */
+	remainingMs(): number {
+		return this.deadline - this.now();
+	}
+
+	/**
+	 * Run an asynchronous phase. When it overruns its budget its signal is aborted with a `PhaseTimeoutError` and the
+	 * returned promise rejects at once; `fn` is expected to stop its work when the signal aborts.
+	 */
+	async run<T>(
+		phase: RenderPhase,
+		fn: (signal: AbortSignal, budgetMs: number) => Promise<T>,
+		options: PhaseOptions = {},
+	): Promise<T> {
+		const { signal: parent, unbounded = false } = options;
+		parent?.throwIfAborted();
+		const budgetMs = unbounded ? Infinity : this.budgetFor(phase);
+		if (budgetMs <= 0) throw new PhaseTimeoutError(phase, 0);
+
+		const controller = new AbortController();
+		const onParentAbort = () => controller.abort(parent?.reason);
+		parent?.addEventListener('abort', onParentAbort, { once: true });
+		const timer = unbounded
+			? undefined
+			: setTimeout(() => controller.abort(new PhaseTimeoutError(phase, budgetMs)), budgetMs);
+		const aborted = new Promise<never>((_, reject) => {
+			controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true });
+		});
+
+		const start = this.now();
+		try {
+			const work = fn(controller.signal, budgetMs);
+			// After an abort nobody waits for the work any more
+			work.catch(() => undefined);
+			return await Promise.race([work, aborted]);
+		} finally {
+			clearTimeout(timer);
+			parent?.removeEventListener('abort', onParentAbort);
+			const elapsed = this.now() - start;
+			this.phaseTimings[phase] = (this.phaseTimings[phase] ?? 0) + elapsed;
+			if (unbounded) this.deadline += elapsed;
+		}
+	}
+
+	/**
+	 * Run a synchronous phase, which cannot be interrupted: it is refused if the budget is already spent, and
+	 * otherwise runs to completion.
+	 */
+	runSync<T>(phase: RenderPhase, fn: () => T): T {
+		if (this.remainingMs() <= 0) throw new PhaseTimeoutError(phase, 0);
+		const start = this.now();
+		try {
+			return fn();
+		} finally {
+			this.phaseTimings[phase] = (this.phaseTimings[phase] ?? 0) + this.now() - start;
+		}
+	}
+
+	/** Milliseconds spent in each phase so far. */
+	get timings(): PhaseTimings {
+		return { ...this.phaseTimings };
+	}
+}
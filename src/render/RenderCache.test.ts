@@ -0,0 +1,177 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import {
+	cacheKey,
+	DiskCacheBackend,
+	MemoryCacheBackend,
+	normalizeCacheUrl,
+	RenderCache,
+	revalidateCachedRender,
+} from 'app/render/RenderCache.js';
+import type { RenderRequest } from 'app/render/model.js';
+
+const viewport = { width: 1440, height: 900 };
+
+function request(overrides: Partial<RenderRequest> = {}): RenderRequest {
+	return { url: 'https://example.com/recipe', includeJsonLdRecipes: false, ...overrides };
+}
+
+describe('normalizeCacheUrl', () => {
+	it('drops fragments and tracking parameters and sorts the query', () => {
+		expect(normalizeCacheUrl('HTTPS://Example.COM:443/recipe?b=2&utm_source=x&a=1#comments')).toBe(
+			'https://example.com/recipe?a=1&b=2',
+		);
+	});
+
+	it('keeps the path case', () => {
+		expect(normalizeCacheUrl('https://example.com/Recipe')).toBe('https://example.com/Recipe');
+	});
+});
+
+describe('cacheKey', () => {
+	it('differs by the options that affect the output', () => {
+		const url = 'https://example.com/recipe';
+		expect(cacheKey(url, request(), viewport)).toBe(cacheKey(`${url}#top`, request(), viewport));
+		expect(cacheKey(url, request(), viewport)).not.toBe(cacheKey(url, request({ simplify: true }), viewport));
+		expect(cacheKey(url, request(), viewport)).not.toBe(cacheKey(url, request(), { width: 800, height: 900 }));
+		expect(cacheKey(url, request(), viewport)).toBe(cacheKey(url, request({ expand: false }), viewport));
+		expect(cacheKey(url, request({ simplify: true }), viewport)).toBe(
+			cacheKey(url, request({ format: 'clean-html' }), viewport),
+		);
+		expect(cacheKey(url, request(), viewport)).not.toBe(cacheKey(url, request({ expand: true }), viewport));
+	});
+
+	it('tells apart the screenshot options, once their defaults are filled in', () => {
+		const url = 'https://example.com/recipe';
+		expect(cacheKey(url, request(), viewport)).toBe(cacheKey(url, request({ screenshot: false }), viewport));
+		expect(cacheKey(url, request({ screenshot: true }), viewport)).toBe(
+			cacheKey(url, request({ screenshot: { format: 'jpeg', quality: 70 } }), viewport),
+		);
+		expect(cacheKey(url, request(), viewport)).not.toBe(cacheKey(url, request({ screenshot: true }), viewport));
+		expect(cacheKey(url, request({ screenshot: true }), viewport)).not.toBe(
+			cacheKey(url, request({ screenshot: { fullPage: true } }), viewport),
+		);
+	});
+});
+
+describe('RenderCache', () => {
+	it('finds entries by the requested and the final URL', async () => {
+		const cache = new RenderCache(new MemoryCacheBackend(10), 60_000);
+		const response = { output: 'x', finalUrl: 'https://example.com/final' };
+		await cache.store('https://example.com/short', request(), viewport, { response, storedAt: Date.now() });
+
+		expect((await cache.lookup('https://example.com/short', request(), viewport))?.fresh).toBe(true);
+		expect((await cache.lookup('https://example.com/final', request(), viewport))?.entry.response).toEqual(
+			response,
+		);
+	});
+
+	it('does not keep what describes a single render', async () => {
+		const cache = new RenderCache(new MemoryCacheBackend(10), 60_000);
+		const response = {
+			output: 'x',
+			finalUrl: 'https://example.com/a',
+			artifactId: 'render-1',
+			timings: { navigation: 120 },
+			cache: { status: 'miss' as const },
+		};
+		await cache.store(response.finalUrl, request(), viewport, { response, storedAt: Date.now() });
+
+		expect((await cache.lookup(response.finalUrl, request(), viewport))?.entry.response).toEqual({
+			output: 'x',
+			finalUrl: 'https://example.com/a',
+		});
+	});
+
+	it('reports entries older than the TTL as stale', async () => {
+		const cache = new RenderCache(new MemoryCacheBackend(10), 1000);
+		const response = { output: 'x', finalUrl: 'https://example.com/a' };
+		await cache.store(response.finalUrl, request(), viewport, { response, storedAt: Date.now() - 5000 });
+
+		expect((await cache.lookup(response.finalUrl, request(), viewport))?.fresh).toBe(false);
+	});
+});
+
+describe('revalidateCachedRender', () => {
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('sends the validators and gives up when the render is abandoned', async () => {
+		let init: RequestInit | undefined;
+		const fetch = vi.fn(async (_url: string, requestInit: RequestInit) => {
+			init = requestInit;
+			return new Response(null, { status: 304 });
+		});
+		vi.stubGlobal('fetch', fetch);
+		const entry = {
+			response: { output: 'x', finalUrl: 'https://93.184.215.14/recipe' },
+			storedAt: 0,
+			etag: '"v1"',
+		};
+		const controller = new AbortController();
+
+		await expect(revalidateCachedRender(entry, 'test', { signal: controller.signal })).resolves.toBe(true);
+		expect(init?.headers).toMatchObject({ 'if-none-match': '"v1"' });
+		expect(init?.signal?.aborted).toBe(false);
+		controller.abort();
+		expect(init?.signal?.aborted).toBe(true);
+	});
+
+	it('does not ask without validators', async () => {
+		const fetch = vi.fn();
+		vi.stubGlobal('fetch', fetch);
+		const entry = { response: { output: 'x', finalUrl: 'https://example.com/recipe' }, storedAt: 0 };
+
+		await expect(revalidateCachedRender(entry, 'test')).resolves.toBe(false);
+		expect(fetch).not.toHaveBeenCalled();
+	});
+});
+
+describe('MemoryCacheBackend', () => {
+	it('evicts the least recently used entry', async () => {
+		const backend = new MemoryCacheBackend(2);
+		const entry = { response: { output: '', finalUrl: '' }, storedAt: 0 };
+		await backend.set('a', entry);
+		await backend.set('b', entry);
+		await backend.get('a');
+		await backend.set('c', entry);
+
+		expect(await backend.get('a')).toBeDefined();
+		expect(await backend.get('b')).toBeUndefined();
+		expect(await backend.get('c')).toBeDefined();
+	});
+});
+
+describe('DiskCacheBackend', () => {
+	let dir: string | undefined;
+
+	afterEach(async () => {
+		if (dir) await fs.rm(dir, { recursive: true, force: true });
+		dir = undefined;
+	});
+
+	it('prunes the least recently written entries once every tenth of the limit', async () => {
+		dir = await fs.mkdtemp(path.join(os.tmpdir(), 'dw-cache-'));
+		const backend = new DiskCacheBackend(dir, 20);
+		const readdir = vi.spyOn(fs, 'readdir');
+		const entry = { response: { output: 'soup', finalUrl: 'https://example.com/soup' }, storedAt: 0 };
+		for (let i = 0; i < 21; i++) {
+			await backend.set(`key-${i}`, entry);
+			// Distinct modification times
+			await new Promise((resolve) => setTimeout(resolve, 2));
+		}
+		// The directory is listed at most every other write, and nothing is over the limit yet
+		expect(readdir.mock.calls.length).toBeLessThanOrEqual(10);
+		expect(await fs.readdir(dir)).toHaveLength(21);
+		await backend.set('key-21', entry);
+
+		await vi.waitFor(async () => expect(await fs.readdir(dir!)).toHaveLength(20));
+		expect(await backend.get('key-0')).toBeUndefined();
+		expect(await backend.get('key-1')).toBeUndefined();
+		expect(await backend.get('key-21')).toEqual(entry);
+		readdir.mockRestore();
+	});
+});
@@ -0,0 +1,227 @@
+import { createHash, randomUUID } from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { RenderRequest, RenderResponse, Viewport } from 'app/render/model.js';
+import { validateRemoteRenderUrl } from 'app/routes/renderTarget.js';
+import { resolveOutputFormat } from 'app/render/outputFormat.js';
+import { resolveScreenshotOptions } from 'app/render/screenshot.js';
+import { logger } from 'app/util/Logger.js';
+
+/** Query parameters that only track the visitor and never change the page content. */
+const TRACKING_PARAM_RE = /^(utm_.+|fbclid|gclid|dclid|msclkid|mc_cid|mc_eid|_ga|igshid)$/i;
+
+const REVALIDATION_TIMEOUT_MS = 5000;
+/** Share of the size limit of the disk cache that is written between two prunes. */
+const DISK_PRUNE_INTERVAL_SHARE = 0.1;
+
+export interface CachedRender {
+	response: RenderResponse;
+	/** Epoch millis when the entry was stored or last revalidated. */
+	storedAt: number;
+	etag?: string;
+	lastModified?: string;
+}
+
+export interface RenderCacheBackend {
+	get(key: string): Promise<CachedRender | undefined>;
+	set(key: string, entry: CachedRender): Promise<void>;
+}
+
+export interface RenderCacheLookup {
+	entry: CachedRender;
+	fresh: boolean;
+}
+
+/**
+ * Cache of render results, keyed by the normalized URL and the request options that affect the output.
+ * Entries are stored under both the requested and the final URL, so that redirected URLs hit too.
+ */
+export class RenderCache {
+	constructor(
+		private readonly backend: RenderCacheBackend,
+		private readonly ttlMs: number,
+	) {}
+
+	async lookup(
+		url: string,
+		renderRequest: RenderRequest,
+		viewport: Viewport,
+	): Promise<RenderCacheLookup | undefined> {
+		const entry = await this.backend.get(cacheKey(url, renderRequest, viewport));
+		if (!entry) return undefined;
+		return { entry, fresh: Date.now() - entry.storedAt < this.ttlMs };
+	}
+
+	async store(
+		requestedUrl: string,
+		renderRequest: RenderRequest,
+		viewport: Viewport,
+		entry: CachedRender,
+	): Promise<void> {
+		const keys = new Set([
+			cacheKey(requestedUrl, renderRequest, viewport),
+			cacheKey(entry.response.finalUrl, renderRequest, viewport),
+		]);
+		// What describes this particular render is never served to later requests
+		const { artifactId: _artifactId, timings: _timings, cache: _cache, ...response } = entry.response;
+		for (const key of keys) {
+			await this.backend.set(key, { ...entry, response });
+		}
+	}
+}
+
+export interface RevalidationOptions {
+	/** Give up after this long; at most 5 seconds. */
+	timeoutMs?: number;
+	/** Give up when the render is abandoned. */
+	signal?: AbortSignal;
+}
+
+/**
+ * Ask the origin whether a stale entry is still current with a conditional GET.
+ * @returns True if the origin answered 304 Not Modified
+ */
+export async function revalidateCachedRender(
+	entry: CachedRender,
+	userAgent: string,
+	{ timeoutMs = REVALIDATION_TIMEOUT_MS, signal }: RevalidationOptions = {},
+): Promise<boolean> {
+	if (!entry.etag && !entry.lastModified) return false;
+
+	const url = await validateRemoteRenderUrl(entry.response.finalUrl);
+	const headers: Record<string, string> = { 'user-agent': userAgent };
+	if (entry.etag) headers['if-none-match'] = entry.etag;
+	if (entry.lastModified) headers['if-modified-since'] = entry.lastModified;
+
+	const res = await fetch(url, {
+		headers,
+		redirect: 'manual',
+		signal: AbortSignal.any([
+			AbortSignal.timeout(Math.min(timeoutMs, REVALIDATION_TIMEOUT_MS)),
+			...(signal ? [signal] : []),
+		]),
+	});
+	await res.body?.cancel();
+	return res.status === 304;
+}
+
+export function cacheKey(url: string, renderRequest: RenderRequest, viewport: Viewport): string {
+	return JSON.stringify([
+		normalizeCacheUrl(url),
+		resolveOutputFormat(renderRequest),
+		renderRequest.cleaning ?? null,
+		!!renderRequest.includeJsonLdRecipes,
+		[viewport.width, viewport.height],
+		renderRequest.waitFor ?? null,
+		renderRequest.scroll ?? null,
+		!!renderRequest.expand,
+		!!renderRequest.printView,
+		!!renderRequest.inlineFrames,
+		!!renderRequest.flattenShadowDom,
+		renderRequest.screenshot ? resolveScreenshotOptions(renderRequest.screenshot) : null,
+		renderRequest.resources ?? null,
+	]);
+}
+
+/**
+ * Normalize a URL for caching: lowercase scheme and host, drop the fragment, default port and tracking parameters,
+ * and sort the remaining query parameters.
+ */
+export function normalizeCacheUrl(rawUrl: string): string {
+	const parsed = new URL(rawUrl);
+	parsed.hash = '';
+	const params = Array.from(parsed.searchParams.entries())
+		.filter(([name]) => !TRACKING_PARAM_RE.test(name))
+		.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+	parsed.search = new URLSearchParams(params).toString();
+	return parsed.toString();
+}
+
+/** Least-recently-used in-memory backend. */
+export class MemoryCacheBackend implements RenderCacheBackend {
+	private entries = new Map<string, CachedRender>();
+
+	constructor(private readonly maxEntries: number) {}
+
+	async get(key: string): Promise<CachedRender | undefined> {
+		const entry = this.entries.get(key);
+		if (entry) {
+			// Re-insert to mark as most recently used
+			this.entries.delete(key);
+			this.entries.set(key, entry);
+		}
+		return entry;
+	}
+
+	async set(key: string, entry: CachedRender): Promise<void> {
+		this.entries.delete(key);
+		this.entries.set(key, entry);
+		while (this.entries.size > this.maxEntries) {
+			const oldest = this.entries.keys().next().value!;
+			this.entries.delete(oldest);
+		}
+	}
+}
+
+/**
+ * On-disk backend, one JSON file per key; the least recently written files are removed beyond the size limit. Listing
+ * the directory is costly, so it is pruned in the background once every tenth of the limit has been written, and may
+ * hold that many entries more in between.
+ */
+export class DiskCacheBackend implements RenderCacheBackend {
+	private writesSincePrune = 0;
+	private pruning: Promise<void> | undefined;
+
+	constructor(
+		private readonly dir: string,
+		private readonly maxEntries: number,
+	) {}
+
+	async get(key: string): Promise<CachedRender | undefined> {
+		try {
+			return JSON.parse(await fs.readFile(this.fileFor(key), 'utf8')) as CachedRender;
+		} catch (err) {
+			if (err && typeof err === 'object' && 'code' in err && err.code === 'ENOENT') return undefined;
+			logger.warn('Ignoring unreadable cache entry', { key, err });
+			return undefined;
+		}
+	}
+
+	async set(key: string, entry: CachedRender): Promise<void> {
+		await fs.mkdir(this.dir, { recursive: true });
+		const file = this.fileFor(key);
+		// Write then rename, so that readers never see a partial file
+		const tmpFile = `${file}.${randomUUID()}.tmp`;
+		await fs.writeFile(tmpFile, JSON.stringify(entry), 'utf8');
+		await fs.rename(tmpFile, file);
+
+		this.writesSincePrune++;
+		if (this.pruning || this.writesSincePrune < Math.ceil(this.maxEntries * DISK_PRUNE_INTERVAL_SHARE)) return;
+		this.writesSincePrune = 0;
+		this.pruning = this.prune()
+			.catch((err) => logger.warn('Failed to prune the render cache', { dir: this.dir, err }))
+			.finally(() => {
+				this.pruning = undefined;
+			});
+	}
+
+	private async prune() {
+		const names = (await fs.readdir(this.dir)).filter((name) => name.endsWith('.json'));
+		if (names.length <= this.maxEntries) return;
+		const files = await Promise.all(
+			names.map(async (name) => {
+				const file = path.join(this.dir, name);
+				const stat = await fs.stat(file).catch(() => null);
+				return { file, mtimeMs: stat?.mtimeMs ?? 0 };
+			}),
+		);
+		files.sort((a, b) => a.mtimeMs - b.mtimeMs);
+		for (const { file } of files.slice(0, files.length - this.maxEntries)) {
+			await fs.rm(file, { force: true });
+		}
+	}
+
+	private fileFor(key: string): string {
+		return path.join(this.dir, `${createHash('sha256').update(key).digest('hex')}.json`);
+	}
+}
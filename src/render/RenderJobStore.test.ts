@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'vitest';
+import { Semaphore } from 'app/util/Semaphore.js';
+import { RenderJobRunner, RenderJobStore, RenderJobStoreFullError } from 'app/render/RenderJobStore.js';
+import type { RenderRequest, RenderResponse } from 'app/render/model.js';
+import { RenderError } from 'app/render/renderErrors.js';
+
+function deferred<T>() {
+	let resolve!: (value: T) => void;
+	let reject!: (reason: unknown) => void;
+	const promise = new Promise<T>((res, rej) => {
+		resolve = res;
+		reject = rej;
+	});
+	return { promise, resolve, reject };
+}
+
+function request(url: string): RenderRequest {
+	return { url, includeJsonLdRecipes: false };
+}
+
+/** A runner that queues on the semaphore like the real renderer does. */
+function queuedRunner(
+	semaphore: Semaphore,
+	work: (renderRequest: RenderRequest) => Promise<RenderResponse>,
+): RenderJobRunner {
+	return async (renderRequest, hooks) => {
+		const ticket = semaphore.enqueue();
+		hooks.onQueued?.(ticket.position);
+		const release = await ticket.acquired;
+		try {
+			hooks.signal?.throwIfAborted();
+			hooks.onStarted?.();
+			return await work(renderRequest);
+		} finally {
+			release();
+		}
+	};
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('RenderJobStore', () => {
+	it('runs a job and keeps its result', async () => {
+		const store = new RenderJobStore(async (r) => ({ output: 'ok', finalUrl: r.url }), {
+			maxJobs: 10,
+			resultTtlMs: 60_000,
+		});
+
+		const job = store.submit(request('https://example.com/'));
+		expect(job.status).toBe('queued');
+		await flush();
+
+		expect(store.get(job.id)).toMatchObject({
+			status: 'succeeded',
+			result: { output: 'ok', finalUrl: 'https://example.com/' },
+		});
+	});
+
+	it('reports the queue position of waiting jobs', async () => {
+		const pending = deferred<RenderResponse>();
+		const store = new RenderJobStore(
+			queuedRunner(new Semaphore(1), () => pending.promise),
+			{ maxJobs: 10, resultTtlMs: 60_000 },
+		);
+
+		const first = store.submit(request('https://example.com/1'));
+		const second = store.submit(request('https://example.com/2'));
+		const third = store.submit(request('https://example.com/3'));
+		await flush();
+
+		expect(store.get(first.id)?.status).toBe('running');
+		expect(store.get(second.id)).toMatchObject({ status: 'queued', queuePosition: 0 });
+		expect(store.get(third.id)).toMatchObject({ status: 'queued', queuePosition: 1 });
+	});
+
+	it('records failures with the same error body as the synchronous route', async () => {
+		const store = new RenderJobStore(
+			async () => {
+				throw new RenderError('TARGET_HTTP_ERROR', 'HTTP 404', 404);
+			},
+			{ maxJobs: 10, resultTtlMs: 60_000 },
+		);
+
+		const job = store.submit(request('https://example.com/'));
+		await flush();
+
+		expect(store.get(job.id)).toMatchObject({
+			status: 'failed',
+			error: { code: 'TARGET_HTTP_ERROR', error: 'HTTP 404', retryable: false, httpStatus: 404 },
+		});
+	});
+
+	it('never runs a job cancelled while queued', async () => {
+		const semaphore = new Semaphore(1);
+		const pending = deferred<RenderResponse>();
+		const urls: string[] = [];
+		const store = new RenderJobStore(
+			queuedRunner(semaphore, (r) => {
+				urls.push(r.url);
+				return pending.promise;
+			}),
+			{ maxJobs: 10, resultTtlMs: 60_000 },
+		);
+
+		store.submit(request('https://example.com/1'));
+		const second = store.submit(request('https://example.com/2'));
+		await flush();
+		expect(store.cancel(second.id)?.status).toBe('cancelled');
+		pending.resolve({ output: '', finalUrl: 'https://example.com/1' });
+		await flush();
+
+		expect(urls).toEqual(['https://example.com/1']);
+		expect(store.get(second.id)?.status).toBe('cancelled');
+		expect(semaphore.activeCount).toBe(0);
+	});
+
+	it('evicts finished jobs when full and rejects when every job is unfinished', async () => {
+		const pending = deferred<RenderResponse>();
+		let calls = 0;
+		const store = new RenderJobStore(
+			async (r) => (calls++ === 0 ? { output: '', finalUrl: r.url } : pending.promise),
+			{ maxJobs: 2, resultTtlMs: 60_000 },
+		);
+
+		const first = store.submit(request('https://example.com/1'));
+		await flush();
+		store.submit(request('https://example.com/2'));
+		store.submit(request('https://example.com/3'));
+
+		expect(store.get(first.id)).toBeUndefined();
+		expect(() => store.submit(request('https://example.com/4'))).toThrow(RenderJobStoreFullError);
+	});
+
+	it('hides jobs from clients other than the one that submitted them', async () => {
+		const store = new RenderJobStore(async (r) => ({ output: '', finalUrl: r.url }), {
+			maxJobs: 10,
+			resultTtlMs: 60_000,
+		});
+		const job = store.submit(request('https://example.com/'), { ownerId: 'a' });
+		await flush();
+
+		expect(store.get(job.id, 'b')).toBeUndefined();
+		expect(store.get(job.id)).toBeUndefined();
+		expect(store.cancel(job.id, 'b')).toBeUndefined();
+		expect(store.get(job.id, 'a')?.status).toBe('succeeded');
+		expect(store.cancel(job.id, 'a')?.status).toBe('succeeded');
+		expect(store.get(job.id, 'a')).toBeUndefined();
+	});
+
+	it('expires finished jobs after the TTL', async () => {
+		const store = new RenderJobStore(async (r) => ({ output: '', finalUrl: r.url }), {
+			maxJobs: 10,
+			resultTtlMs: 0,
+		});
+
+		const job = store.submit(request('https://example.com/'));
+		await flush();
+
+		expect(store.get(job.id)).toBeUndefined();
+	});
+});
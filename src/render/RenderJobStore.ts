@@ -0,0 +1,188 @@
+import { randomUUID } from 'node:crypto';
+import type { RenderRequest, RenderResponse } from 'app/render/model.js';
+import { logRenderError, RenderErrorBody, toRenderErrorResponse } from 'app/render/renderErrors.js';
+import type { RenderHooks } from 'app/render/Renderer.js';
+
+export type RenderJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface RenderJobView {
+	id: string;
+	status: RenderJobStatus;
+	createdAt: string;
+	startedAt?: string;
+	finishedAt?: string;
+	/** Number of render requests ahead of this job; only present while queued. */
+	queuePosition?: number;
+	result?: RenderResponse;
+	error?: RenderErrorBody;
+}
+
+export interface RenderJobStoreOptions {
+	/** Maximum number of jobs kept in memory, finished or not. */
+	maxJobs: number;
+	/** How long the outcome of a finished job is kept before it expires. */
+	resultTtlMs: number;
+}
+
+export type RenderJobRunner = (renderRequest: RenderRequest, hooks: RenderHooks) => Promise<RenderResponse>;
+
+export interface SubmitOptions {
+	/** Id of the client that submits the job; only the same client can see or cancel it. */
+	ownerId?: string;
+	/** Called once the render is over, including after cancellation. */
+	onFinished?: () => void;
+}
+
+export class RenderJobStoreFullError extends Error {
+	constructor() {
+		super('Too many render jobs');
+		this.name = 'RenderJobStoreFullError';
+	}
+}
+
+interface RenderJob {
+	id: string;
+	ownerId?: string;
+	status: RenderJobStatus;
+	createdAt: number;
+	startedAt?: number;
+	finishedAt?: number;
+	position?: () => number;
+	abortController: AbortController;
+	result?: RenderResponse;
+	error?: RenderErrorBody;
+}
+
+/**
+ * Bounded in-memory store of asynchronous render jobs. Jobs go through the same renderer as the synchronous render
+ * route, so both APIs share the browser capacity fairly.
+ */
+export class RenderJobStore {
+	private jobs = new Map<string, RenderJob>();
+
+	constructor(
+		private readonly run: RenderJobRunner,
+		private readonly options: RenderJobStoreOptions,
+	) {}
+
+	/**
+	 * Queue a new render job and return its initial view.
+	 * @throws RenderJobStoreFullError if the store is full of unfinished jobs
+	 */
+	submit(renderRequest: RenderRequest, { ownerId, onFinished }: SubmitOptions = {}): RenderJobView {
+		this.evictExpired();
+		if (this.jobs.size >= this.options.maxJobs && !this.evictOldestFinished()) {
+			throw new RenderJobStoreFullError();
+		}
+
+		const job: RenderJob = {
+			id: randomUUID(),
+			ownerId,
+			status: 'queued',
+			createdAt: Date.now(),
+			abortController: new AbortController(),
+		};
+		this.jobs.set(job.id, job);
+
+		void this.execute(job, renderRequest).finally(onFinished);
+
+		return toView(job);
+	}
+
+	/** The view of a job, or undefined if there is no such job of the given client. */
+	get(id: string, ownerId?: string): RenderJobView | undefined {
+		this.evictExpired();
+		const job = this.find(id, ownerId);
+		return job && toView(job);
+	}
+
+	/**
+	 * Cancel a job. A queued job gives up its place without ever rendering; the outcome of a running job is discarded.
+	 * Finished jobs are simply removed.
+	 * @returns The view of the job after cancellation, or undefined if there is no such job of the given client
+	 */
+	cancel(id: string, ownerId?: string): RenderJobView | undefined {
+		const job = this.find(id, ownerId);
+		if (!job) return undefined;
+		if (job.status === 'queued' || job.status === 'running') {
+			job.status = 'cancelled';
+			job.finishedAt = Date.now();
+			job.abortController.abort();
+			return toView(job);
+		}
+		this.jobs.delete(id);
+		return toView(job);
+	}
+
+	/** Jobs of other clients are treated as unknown, so that their ids are not even confirmed to exist. */
+	private find(id: string, ownerId: string | undefined): RenderJob | undefined {
+		const job = this.jobs.get(id);
+		return job && job.ownerId === ownerId ? job : undefined;
+	}
+
+	private async execute(job: RenderJob, renderRequest: RenderRequest) {
+		try {
+			const result = await this.run(renderRequest, {
+				onQueued: (position) => {
+					job.position = position;
+				},
+				onStarted: () => {
+					if (isCancelled(job)) return;
+					job.status = 'running';
+					job.startedAt = Date.now();
+				},
+				signal: job.abortController.signal,
+			});
+			if (isCancelled(job)) return;
+			job.result = result;
+			job.status = 'succeeded';
+		} catch (err) {
+			if (isCancelled(job)) return;
+			logRenderError('Error rendering', { url: renderRequest.url, jobId: job.id }, err);
+			job.error = toRenderErrorResponse(err).body;
+			job.status = 'failed';
+		} finally {
+			job.finishedAt ??= Date.now();
+		}
+	}
+
+	private evictExpired() {
+		const now = Date.now();
+		for (const [id, job] of this.jobs) {
+			if (job.finishedAt !== undefined && now - job.finishedAt >= this.options.resultTtlMs) {
+				this.jobs.delete(id);
+			}
+		}
+	}
+
+	private evictOldestFinished(): boolean {
+		let oldest: RenderJob | undefined;
+		for (const job of this.jobs.values()) {
+			if (job.finishedAt !== undefined && (!oldest || job.finishedAt < oldest.finishedAt!)) {
+				oldest = job;
+			}
+		}
+		if (!oldest) return false;
+		this.jobs.delete(oldest.id);
+		return true;
+	}
+}
+
+// A separate function, so that the status is not narrowed across awaits
+function isCancelled(job: RenderJob): boolean {
+	return job.status === 'cancelled';
+}
+
+function toView(job: RenderJob): RenderJobView {
+	const view: RenderJobView = {
+		id: job.id,
+		status: job.status,
+		createdAt: new Date(job.createdAt).toISOString(),
+	};
+	if (job.startedAt !== undefined) view.startedAt = new Date(job.startedAt).toISOString();
+	if (job.finishedAt !== undefined) view.finishedAt = new Date(job.finishedAt).toISOString();
+	if (job.status === 'queued' && job.position) view.queuePosition = job.position();
+	if (job.result) view.result = job.result;
+	if (job.error) view.error = job.error;
+	return view;
+}
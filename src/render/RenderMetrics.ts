@@ -0,0 +1,116 @@
+import type { PageCleaningResult } from 'app/cleaner/cleanHtmlForLLM.js';
+import type { BlockedRequestStats, CacheInfo } from 'app/render/model.js';
+import type { RenderErrorCode } from 'app/render/renderErrors.js';
+import type { BrowserPool } from 'app/util/BrowserPool.js';
+import { MetricsRegistry } from 'app/util/Metrics.js';
+import type { Semaphore } from 'app/util/Semaphore.js';
+
+const DURATION_BUCKETS_SECONDS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 20, 30, 60];
+const OUTPUT_SIZE_BUCKETS = [100, 1000, 5000, 10000, 25000, 50000, 100000, 250000, 1000000];
+
+/** Renders given up by their clients are `aborted`, not `error`. */
+export type RenderOutcome = 'success' | 'error' | 'aborted';
+
+/** The parts of the service whose state is reported when the metrics are scraped. */
+export interface ObservedResources {
+	semaphore: Semaphore;
+	browserPool: BrowserPool;
+	coalescedCount: () => number;
+}
+
+/**
+ * The metrics of the renderer, exposed on `/metrics`.
+ */
+export class RenderMetrics {
+	readonly registry = new MetricsRegistry();
+
+	private readonly renders = this.registry.counter(
+		'renderer_renders_total',
+		'Render requests by outcome and error code',
+	);
+	private readonly renderDuration = this.registry.histogram(
+		'renderer_render_duration_seconds',
+		'Duration of render requests by outcome and error code, including the wait for a slot',
+		DURATION_BUCKETS_SECONDS,
+	);
+	private readonly cacheResults = this.registry.counter(
+		'renderer_cache_results_total',
+		'Render cache results by status',
+	);
+	private readonly hardTimeouts = this.registry.counter(
+		'renderer_hard_timeouts_total',
+		'Renders killed by the hard timeout, replacing their browser',
+	);
+	private readonly blockedRequests = this.registry.counter(
+		'renderer_blocked_requests_total',
+		'Subresource requests aborted by the browser, by reason',
+	);
+	private readonly cleaningOutputChars = this.registry.histogram(
+		'renderer_cleaning_output_chars',
+		'Length of the cleaned output in characters',
+		OUTPUT_SIZE_BUCKETS,
+	);
+	private readonly cleaningTextLength = this.registry.histogram(
+		'renderer_cleaning_text_length',
+		'Length of the text of the cleaned output in characters',
+		OUTPUT_SIZE_BUCKETS,
+	);
+	private readonly cleaningNodes = this.registry.counter(
+		'renderer_cleaning_nodes_total',
+		'Nodes and attributes affected by cleaning, by action as in PageCleaningResult.stats',
+	);
+
+	/** Report the state of the semaphore, the browser pool and request coalescing. */
+	observe({ semaphore, browserPool, coalescedCount }: ObservedResources) {
+		this.registry.gauge('renderer_semaphore_active', 'Renders holding a slot', () => semaphore.activeCount);
+		this.registry.labelledGauge('renderer_semaphore_queued', 'Renders waiting for a slot, by priority', () =>
+			Object.entries(semaphore.queueLengthByPriority()).map(([priority, value]) => ({
+				labels: { priority },
+				value,
+			})),
+		);
+		this.registry.gauge('renderer_browser_pool_size', 'Browsers in the pool', () => browserPool.poolSize);
+		this.registry.gauge(
+			'renderer_browser_pool_alive',
+			'Browsers in the pool that are alive',
+			() => browserPool.aliveCount,
+		);
+		this.registry.collectedCounter(
+			'renderer_browser_pool_replacements_total',
+			'Browsers replaced after a crash or a hard timeout',
+			() => browserPool.replacementCount,
+		);
+		this.registry.collectedCounter(
+			'renderer_coalesced_renders_total',
+			'Render requests merged into an identical render in flight',
+			coalescedCount,
+		);
+	}
+
+	recordRender(outcome: RenderOutcome, durationMs: number, code?: RenderErrorCode, cache?: CacheInfo) {
+		const labels = { outcome, code: code ?? 'none' };
+		this.renders.inc(labels);
+		this.renderDuration.observe(durationMs / 1000, labels);
+		if (cache) this.cacheResults.inc({ status: cache.status });
+	}
+
+	recordHardTimeout() {
+		this.hardTimeouts.inc();
+	}
+
+	recordBlockedRequests(stats: BlockedRequestStats) {
+		for (const [type, count] of Object.entries(stats.byResourceType)) {
+			if (count) this.blockedRequests.inc({ reason: 'resource_type', type }, count);
+		}
+		if (stats.trackers) this.blockedRequests.inc({ reason: 'tracker' }, stats.trackers);
+		if (stats.disallowed) this.blockedRequests.inc({ reason: 'disallowed' }, stats.disallowed);
+	}
+
+	recordCleaning(result: PageCleaningResult) {
+		this.cleaningOutputChars.observe(result.output.length);
+		this.cleaningTextLength.observe(result.textLength);
+		for (const [action, count] of Object.entries(result.stats)) {
+			if (count) this.cleaningNodes.inc({ action }, count);
+		}
+	}
+}
@@ -0,0 +1,211 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { RenderRequest, RenderResponse } from 'app/render/model.js';
+import type { RenderServices } from 'app/render/renderPage.js';
+import { renderPage } from 'app/render/renderPage.js';
+import { Renderer } from 'app/render/Renderer.js';
+import { RenderError } from 'app/render/renderErrors.js';
+import { Semaphore } from 'app/util/Semaphore.js';
+
+vi.mock('app/render/renderPage.js', async (importOriginal) => ({
+	...(await importOriginal<typeof import('app/render/renderPage.js')>()),
+	renderPage: vi.fn(),
+}));
+
+function deferred<T>() {
+	let resolve!: (value: T) => void;
+	let reject!: (reason: unknown) => void;
+	const promise = new Promise<T>((res, rej) => {
+		resolve = res;
+		reject = rej;
+	});
+	return { promise, resolve, reject };
+}
+
+// An address literal, so that validating the target needs no DNS
+const TARGET_URL = 'https://93.184.215.14/soup';
+
+function request(overrides: Partial<RenderRequest> = {}): RenderRequest {
+	return { url: TARGET_URL, includeJsonLdRecipes: false, ...overrides };
+}
+
+function services() {
+	return { metrics: { recordRender: vi.fn() } } as unknown as RenderServices & {
+		metrics: { recordRender: ReturnType<typeof vi.fn> };
+	};
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const disconnected = () => new RenderError('CANCELLED', 'The client disconnected');
+
+describe('Renderer', () => {
+	let page: ReturnType<typeof deferred<RenderResponse>>;
+
+	beforeEach(() => {
+		page = deferred<RenderResponse>();
+		vi.mocked(renderPage).mockReset();
+		vi.mocked(renderPage).mockImplementation(() => page.promise);
+	});
+
+	describe('coalescing', () => {
+		it('reports the queue progress of a shared render to every caller', async () => {
+			const semaphore = new Semaphore(1);
+			const releaseHeld = await semaphore.acquire();
+			const renderer = new Renderer(services(), semaphore);
+			const first = { onQueued: vi.fn(), onStarted: vi.fn() };
+			const second = { onQueued: vi.fn(), onStarted: vi.fn() };
+
+			const firstRender = renderer.render(request(), first);
+			await flush();
+			const secondRender = renderer.render(request(), second);
+			await flush();
+			expect(first.onQueued).toHaveBeenCalledOnce();
+			expect(second.onQueued).toHaveBeenCalledOnce();
+			expect(second.onQueued.mock.calls[0][0]()).toBe(0);
+			expect(second.onStarted).not.toHaveBeenCalled();
+
+			releaseHeld();
+			await flush();
+			expect(first.onStarted).toHaveBeenCalledOnce();
+			expect(second.onStarted).toHaveBeenCalledOnce();
+
+			page.resolve({ output: 'soup', finalUrl: TARGET_URL });
+			await expect(firstRender).resolves.toMatchObject({ output: 'soup' });
+			await expect(secondRender).resolves.toMatchObject({ output: 'soup' });
+			expect(renderPage).toHaveBeenCalledOnce();
+			expect(renderer.coalescedCount).toBe(1);
+		});
+
+		it('tells callers that join a render already started that it started', async () => {
+			const renderer = new Renderer(services(), new Semaphore(1));
+			const firstRender = renderer.render(request());
+			await flush();
+			const late = { onQueued: vi.fn(), onStarted: vi.fn() };
+			const lateRender = renderer.render(request(), late);
+			await flush();
+
+			expect(late.onQueued).toHaveBeenCalledOnce();
+			expect(late.onStarted).toHaveBeenCalledOnce();
+			page.resolve({ output: 'soup', finalUrl: TARGET_URL });
+			await Promise.all([firstRender, lateRender]);
+		});
+
+		it('does not share renders between different priorities, budgets or queue modes', async () => {
+			const semaphore = new Semaphore(4);
+			const enqueue = vi.spyOn(semaphore, 'enqueue');
+			const renderer = new Renderer(services(), semaphore);
+
+			const renders = [
+				renderer.render(request({ priority: 'low' })),
+				renderer.render(request({ priority: 'high' })),
+				renderer.render(request({ priority: 'high', timeout: 60000 })),
+				renderer.render(request({ priority: 'high' }), { maxQueueWaitMs: 1000 }),
+			];
+			await flush();
+
+			expect(renderPage).toHaveBeenCalledTimes(4);
+			expect(enqueue.mock.calls.map(([options]) => [options?.priority, options?.maxWaitMs])).toEqual([
+				['low', undefined],
+				['high', undefined],
+				['high', undefined],
+				['high', 1000],
+			]);
+			expect(renderer.coalescedCount).toBe(0);
+			page.resolve({ output: 'soup', finalUrl: TARGET_URL });
+			await Promise.all(renders);
+		});
+	});
+
+	describe('aborting', () => {
+		it('leaves the queue when aborted while waiting for a slot', async () => {
+			const semaphore = new Semaphore(1);
+			const releaseHeld = await semaphore.acquire();
+			const deps = services();
+			const renderer = new Renderer(deps, semaphore);
+			const controller = new AbortController();
+
+			const render = renderer.render(request(), { signal: controller.signal });
+			await flush();
+			expect(semaphore.queueLength).toBe(1);
+			controller.abort(disconnected());
+
+			await expect(render).rejects.toMatchObject({ code: 'CANCELLED' });
+			expect(semaphore.queueLength).toBe(0);
+			expect(renderPage).not.toHaveBeenCalled();
+			expect(deps.metrics.recordRender).toHaveBeenCalledWith('aborted', expect.any(Number), 'CANCELLED');
+			releaseHeld();
+		});
+
+		it('releases a slot granted just as the render is aborted', async () => {
+			const release = vi.fn();
+			const grant = deferred<() => void>();
+			const semaphore = {
+				enqueue: () => ({ acquired: grant.promise, position: () => 0 }),
+			} as unknown as Semaphore;
+			const renderer = new Renderer(services(), semaphore);
+			const controller = new AbortController();
+
+			const render = renderer.render(request(), { signal: controller.signal });
+			await flush();
+			grant.resolve(release);
+			controller.abort(disconnected());
+
+			await expect(render).rejects.toMatchObject({ code: 'CANCELLED' });
+			await flush();
+			expect(release).toHaveBeenCalledOnce();
+			expect(renderPage).not.toHaveBeenCalled();
+		});
+
+		it('hands the abort to the browser work and releases its slot', async () => {
+			vi.mocked(renderPage).mockImplementation(
+				(_request, _target, _services, hooks) =>
+					new Promise((_resolve, reject) => {
+						hooks?.signal?.addEventListener('abort', () => reject(hooks.signal?.reason), { once: true });
+					}),
+			);
+			const semaphore = new Semaphore(1);
+			const deps = services();
+			const renderer = new Renderer(deps, semaphore);
+			const controller = new AbortController();
+
+			const render = renderer.render(request(), { signal: controller.signal });
+			await flush();
+			expect(semaphore.activeCount).toBe(1);
+			controller.abort(disconnected());
+
+			await expect(render).rejects.toMatchObject({ code: 'CANCELLED' });
+			expect(semaphore.activeCount).toBe(0);
+			expect(deps.metrics.recordRender).toHaveBeenCalledWith('aborted', expect.any(Number), 'CANCELLED');
+		});
+	});
+
+	describe('queueing', () => {
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		it('bounds the wait for a slot by the queue setting alone, and starts the time budget with the slot', async () => {
+			vi.useFakeTimers();
+			const semaphore = new Semaphore(1);
+			const releaseHeld = await semaphore.acquire();
+			const renderer = new Renderer(services(), semaphore);
+
+			const timedOut = renderer.render(request({ timeout: 1000 }), { maxQueueWaitMs: 3000 });
+			timedOut.catch(() => undefined);
+			await vi.advanceTimersByTimeAsync(2000);
+			expect(semaphore.queueLength).toBe(1);
+			await vi.advanceTimersByTimeAsync(1000);
+			await expect(timedOut).rejects.toThrow('No slot available within 3000ms');
+
+			const served = renderer.render(request({ timeout: 1000 }), { maxQueueWaitMs: 3000 });
+			await vi.advanceTimersByTimeAsync(2000);
+			releaseHeld();
+			await vi.advanceTimersByTimeAsync(0);
+			expect(renderPage).toHaveBeenCalledOnce();
+			const { budget } = vi.mocked(renderPage).mock.calls[0][3]!;
+			expect(budget?.remainingMs()).toBe(1000);
+			page.resolve({ output: 'soup', finalUrl: TARGET_URL });
+			await expect(served).resolves.toMatchObject({ output: 'soup' });
+		});
+	});
+});
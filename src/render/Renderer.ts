@@ -0,0 +1,270 @@
+import type { Semaphore, SemaphoreTicket } from 'app/util/Semaphore.js';
+import type { RenderRequest, RenderResponse, Viewport } from 'app/render/model.js';
+import { CANONICAL_PROFILE, normalizeViewport, renderPage, RenderServices } from 'app/render/renderPage.js';
+import { cacheKey, RenderCache, revalidateCachedRender } from 'app/render/RenderCache.js';
+import { RenderTarget, validateRenderTarget } from 'app/routes/renderTarget.js';
+import { RenderError, toRenderError } from 'app/render/renderErrors.js';
+import { RequestCoalescer } from 'app/util/RequestCoalescer.js';
+import { DEFAULT_RENDER_TIMEOUT_MS, RenderBudget } from 'app/render/RenderBudget.js';
+import { logger } from 'app/util/Logger.js';
+
+export interface RenderHooks {
+	/** Called before waiting for a semaphore slot, with a way to observe the position in the queue. */
+	onQueued?: (position: () => number) => void;
+	/** Called when the render got a slot and the browser work starts. */
+	onStarted?: () => void;
+	/** Give up the render, whether it waits for a slot or runs in the browser. */
+	signal?: AbortSignal;
+	/**
+	 * Give up with `QUEUE_TIMEOUT` if no slot is granted within this time; without it the render waits as long as it
+	 * takes. Either way the time budget of the render starts with the slot.
+	 */
+	maxQueueWaitMs?: number;
+}
+
+/** Relays the queue progress of a shared render to every caller that joined it, including callers that join late. */
+class SharedProgress {
+	private position?: () => number;
+	private started = false;
+	private readonly callers = new Set<RenderHooks>();
+
+	join(hooks: RenderHooks) {
+		if (this.position) hooks.onQueued?.(this.position);
+		if (this.started) hooks.onStarted?.();
+		this.callers.add(hooks);
+	}
+
+	leave(hooks: RenderHooks) {
+		this.callers.delete(hooks);
+	}
+
+	readonly hooks: Pick<RenderHooks, 'onQueued' | 'onStarted'> = {
+		onQueued: (position) => {
+			this.position = position;
+			for (const hooks of this.callers) hooks.onQueued?.(position);
+		},
+		onStarted: () => {
+			this.started = true;
+			for (const hooks of this.callers) hooks.onStarted?.();
+		},
+	};
+}
+
+/**
+ * Entry point of all renders: serves from the cache when possible, joins an identical render already in flight, or
+ * otherwise waits for a semaphore slot and renders the page in the browser pool.
+ */
+export class Renderer {
+	private readonly coalescer = new RequestCoalescer<RenderResponse>();
+	private readonly progress = new Map<string, SharedProgress>();
+
+	constructor(
+		private readonly services: RenderServices,
+		private readonly semaphore: Semaphore,
+		private readonly cache?: RenderCache,
+	) {}
+
+	async render(renderRequest: RenderRequest, hooks: RenderHooks = {}): Promise<RenderResponse> {
+		const start = Date.now();
+		try {
+			const response = await this.doRender(renderRequest, hooks);
+			this.services.metrics.recordRender('success', Date.now() - start, undefined, response.cache);
+			return response;
+		} catch (err) {
+			const { code } = toRenderError(err);
+			if (code === 'CANCELLED') {
+				logger.info('Render aborted', { url: renderRequest.url, durationMs: Date.now() - start });
+			}
+			this.services.metrics.recordRender(code === 'CANCELLED' ? 'aborted' : 'error', Date.now() - start, code);
+			throw err;
+		}
+	}
+
+	private async doRender(renderRequest: RenderRequest, hooks: RenderHooks): Promise<RenderResponse> {
+		hooks.signal?.throwIfAborted();
+		if (typeof renderRequest.url !== 'string' || renderRequest.url.trim() === '') {
+			throw new RenderError('INVALID_REQUEST', 'Invalid or empty url');
+		}
+
+		const renderTarget = await validateRenderTarget(renderRequest.url, {
+			testDir: process.env.DW_RENDERER_TEST_DIR,
+		});
+		const cache = renderTarget.kind === 'remote' ? this.cache : undefined;
+		const cacheMode = renderRequest.cache ?? 'use';
+		const viewport = normalizeViewport(renderRequest.viewport);
+
+		if (cache && renderTarget.kind === 'remote' && cacheMode === 'use') {
+			const cached = await this.fromCache(cache, renderTarget.url, renderRequest, viewport, hooks.signal);
+			if (cached) return cached;
+		}
+
+		if (renderTarget.kind !== 'remote') {
+			return this.renderFresh(renderRequest, renderTarget, viewport, hooks);
+		}
+		// Identical renders in flight share one browser job, which reports its progress to every caller
+		const key = coalescingKey(renderTarget.url, renderRequest, viewport, hooks);
+		const progress = this.progress.get(key) ?? new SharedProgress();
+		progress.join(hooks);
+		try {
+			return await this.coalescer.run(
+				key,
+				(signal) => {
+					this.progress.set(key, progress);
+					return this.renderFresh(renderRequest, renderTarget, viewport, {
+						...progress.hooks,
+						maxQueueWaitMs: hooks.maxQueueWaitMs,
+						signal,
+					}).finally(() => {
+						if (this.progress.get(key) === progress) this.progress.delete(key);
+					});
+				},
+				hooks.signal,
+			);
+		} finally {
+			progress.leave(hooks);
+		}
+	}
+
+	/** Number of render requests that were merged into a render already in flight. */
+	get coalescedCount(): number {
+		return this.coalescer.mergedCount;
+	}
+
+	private async renderFresh(
+		renderRequest: RenderRequest,
+		renderTarget: RenderTarget,
+		viewport: Viewport,
+		hooks: RenderHooks,
+	): Promise<RenderResponse> {
+		const cache = renderTarget.kind === 'remote' ? this.cache : undefined;
+		const cacheMode = renderRequest.cache ?? 'use';
+
+		const budget = new RenderBudget(renderRequest.timeout ?? DEFAULT_RENDER_TIMEOUT_MS);
+		const release = await this.acquireSlot(renderRequest, hooks, budget);
+		try {
+			hooks.onStarted?.();
+			let etag: string | undefined;
+			let lastModified: string | undefined;
+			const response = await renderPage(renderRequest, renderTarget, this.services, {
+				signal: hooks.signal,
+				budget,
+				onDocumentResponse: (headers) => {
+					etag = headers['etag'];
+					lastModified = headers['last-modified'];
+				},
+			});
+
+			if (!cache || renderTarget.kind !== 'remote') return response;
+			if (cacheMode === 'bypass') return { ...response, cache: { status: 'bypass' } };
+
+			const storedAt = Date.now();
+			try {
+				await cache.store(renderTarget.url, renderRequest, viewport, {
+					response,
+					storedAt,
+					etag,
+					lastModified,
+				});
+			} catch (err) {
+				logger.warn('Failed to cache the render', { url: renderTarget.url, err });
+			}
+			return {
+				...response,
+				cache: {
+					status: cacheMode === 'refresh' ? 'refresh' : 'miss',
+					storedAt: new Date(storedAt).toISOString(),
+				},
+			};
+		} finally {
+			release();
+		}
+	}
+
+	private async fromCache(
+		cache: RenderCache,
+		url: string,
+		renderRequest: RenderRequest,
+		viewport: Viewport,
+		signal?: AbortSignal,
+	): Promise<RenderResponse | undefined> {
+		try {
+			const cached = await cache.lookup(url, renderRequest, viewport);
+			if (!cached) return undefined;
+
+			const { entry } = cached;
+			if (cached.fresh) {
+				return {
+					...entry.response,
+					cache: { status: 'hit', storedAt: new Date(entry.storedAt).toISOString() },
+				};
+			}
+			const revalidated = await revalidateCachedRender(entry, CANONICAL_PROFILE.userAgent, {
+				timeoutMs: renderRequest.timeout ?? DEFAULT_RENDER_TIMEOUT_MS,
+				signal,
+			});
+			if (revalidated) {
+				const storedAt = Date.now();
+				await cache.store(url, renderRequest, viewport, { ...entry, storedAt });
+				return {
+					...entry.response,
+					cache: { status: 'revalidated', storedAt: new Date(storedAt).toISOString() },
+				};
+			}
+		} catch (err) {
+			signal?.throwIfAborted();
+			logger.warn('Cache lookup failed, rendering instead', { url, err });
+		}
+		return undefined;
+	}
+
+	private async acquireSlot(
+		renderRequest: RenderRequest,
+		hooks: RenderHooks,
+		budget: RenderBudget,
+	): Promise<() => void> {
+		hooks.signal?.throwIfAborted();
+		let ticket: SemaphoreTicket | undefined;
+		let release: () => void;
+		try {
+			release = await budget.run(
+				'queue',
+				async (signal) => {
+					ticket = this.semaphore.enqueue({
+						signal,
+						maxWaitMs: hooks.maxQueueWaitMs,
+						priority: renderRequest.priority,
+					});
+					hooks.onQueued?.(ticket.position);
+					return ticket.acquired;
+				},
+				{ signal: hooks.signal, unbounded: true },
+			);
+		} catch (err) {
+			// The slot may have been granted just as the wait was given up
+			void ticket?.acquired.then(
+				(grantedRelease) => grantedRelease(),
+				() => undefined,
+			);
+			throw err;
+		}
+		if (hooks.signal?.aborted) {
+			release();
+			hooks.signal.throwIfAborted();
+		}
+		return release;
+	}
+}
+
+/**
+ * Renders are only shared by callers that would also have waited for a slot and timed out alike: the same priority,
+ * time budget and queue mode, on top of the options that affect the output.
+ */
+function coalescingKey(url: string, renderRequest: RenderRequest, viewport: Viewport, hooks: RenderHooks): string {
+	return JSON.stringify([
+		cacheKey(url, renderRequest, viewport),
+		renderRequest.cache ?? 'use',
+		renderRequest.priority ?? 'normal',
+		renderRequest.timeout ?? DEFAULT_RENDER_TIMEOUT_MS,
+		hooks.maxQueueWaitMs ?? null,
+	]);
+}
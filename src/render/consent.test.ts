@@ -0,0 +1,116 @@
+// @vitest-environment jsdom
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Page } from 'playwright';
+import { CONSENT_PLATFORM_HANDLERS, dismissConsent } from 'app/render/consent.js';
+import { CONSENT_SELECTORS } from 'app/cleaner/removeConsentUI.js';
+
+/** A minimal banner of each CMP, as its script renders it. */
+const BANNERS: Record<string, string> = {
+	onetrust: '<div id="onetrust-banner-sdk"><button id="onetrust-reject-all-handler">Reject all</button></div>',
+	didomi: '<div id="didomi-host"><button id="didomi-notice-disagree-button">Disagree</button></div>',
+	quantcast:
+		'<div class="qc-cmp2-container"><div class="qc-cmp2-summary-buttons"><button mode="secondary">Reject</button></div></div>',
+	cookiebot: '<div id="CybotCookiebotDialog"><button id="CybotCookiebotDialogBodyButtonDecline">Deny</button></div>',
+	iubenda: '<div id="iubenda-cs-banner"><button class="iubenda-cs-reject-btn">Reject</button></div>',
+	osano: '<div class="osano-cm-dialog"><button class="osano-cm-denyAll">Deny</button></div>',
+};
+
+describe('CONSENT_PLATFORM_HANDLERS', () => {
+	afterEach(() => {
+		document.body.innerHTML = '';
+		vi.unstubAllGlobals();
+	});
+
+	it('only detects banners that the cleaner removes too', () => {
+		for (const handler of CONSENT_PLATFORM_HANDLERS) {
+			for (const selector of handler.detect) {
+				// The detection selectors are plain ids and classes
+				const element = document.createElement('div');
+				if (selector.startsWith('#')) element.id = selector.slice(1);
+				else element.className = selector.slice(1);
+				expect(element.matches(selector), selector).toBe(true);
+				expect(
+					CONSENT_SELECTORS.some((cleanerSelector) => element.matches(cleanerSelector)),
+					`${handler.name}: ${selector}`,
+				).toBe(true);
+			}
+		}
+	});
+
+	it('detects each platform by its banner and finds its reject control', () => {
+		for (const handler of CONSENT_PLATFORM_HANDLERS) {
+			document.body.innerHTML = BANNERS[handler.name];
+			const detected = CONSENT_PLATFORM_HANDLERS.filter((other) =>
+				other.detect.some((selector) => document.querySelector(selector)),
+			);
+			expect(detected.map((other) => other.name)).toEqual([handler.name]);
+			expect(document.querySelector(handler.rejectButtons.join(', ')), handler.name).not.toBeNull();
+		}
+	});
+
+	it('rejects through the JS API of the platform when it is loaded', () => {
+		const onetrust = CONSENT_PLATFORM_HANDLERS.find((handler) => handler.name === 'onetrust')!;
+		expect(onetrust.rejectViaApi!()).toBe(false);
+
+		const RejectAll = vi.fn();
+		vi.stubGlobal('OneTrust', { RejectAll });
+		expect(onetrust.rejectViaApi!()).toBe(true);
+		expect(RejectAll).toHaveBeenCalledOnce();
+
+		const decline = vi.fn();
+		vi.stubGlobal('Cookiebot', { decline });
+		expect(CONSENT_PLATFORM_HANDLERS.find((handler) => handler.name === 'cookiebot')!.rejectViaApi!()).toBe(true);
+		expect(decline).toHaveBeenCalledOnce();
+	});
+});
+
+describe('dismissConsent', () => {
+	/** A page with a OneTrust banner whose reject button does not react to clicks. */
+	function fakePage() {
+		const click = vi.fn(
+			({ timeout }: { timeout: number }) =>
+				new Promise((_, reject) => setTimeout(() => reject(new Error('Timeout exceeded')), timeout)),
+		);
+		const page = {
+			locator: (selector: string) => {
+				const locator = {
+					count: async () => (selector.includes('onetrust') ? 1 : 0),
+					first: () => locator,
+					isVisible: async () => true,
+					click,
+				};
+				return locator;
+			},
+			evaluate: async () => false,
+			waitForTimeout: vi.fn(async () => undefined),
+		};
+		return { page: page as unknown as Page, click };
+	}
+
+	it('cuts clicks short at the end of the budget of the step', async () => {
+		const { page, click } = fakePage();
+		const start = Date.now();
+
+		await expect(dismissConsent(page, { budgetMs: 200 })).resolves.toEqual({ cmp: 'onetrust', action: 'failed' });
+		expect(click.mock.calls[0][0].timeout).toBeLessThanOrEqual(200);
+		// The second reject control of OneTrust is not tried once the budget is spent
+		expect(click).toHaveBeenCalledOnce();
+		expect(Date.now() - start).toBeLessThan(1000);
+	});
+
+	it('stops as soon as the signal aborts', async () => {
+		const { page, click } = fakePage();
+		const controller = new AbortController();
+		click.mockImplementation(async () => {
+			controller.abort(new Error('The waiting phase exceeded its budget'));
+			return new Promise(() => undefined);
+		});
+
+		await expect(dismissConsent(page, { signal: controller.signal, budgetMs: 60_000 })).resolves.toEqual({
+			cmp: 'onetrust',
+			action: 'failed',
+		});
+		expect(click).toHaveBeenCalledOnce();
+	});
+});
@@ -0,0 +1,131 @@
+import type { Page } from 'playwright';
+import type { ConsentOutcome, ConsentPlatform } from 'app/render/model.js';
+import { logger } from 'app/util/Logger.js';
+import { abortable, playwrightTimeout, StepLimits } from 'app/render/RenderBudget.js';
+
+const CLICK_TIMEOUT_MS = 1500;
+const SETTLE_MS = 300;
+
+export interface ConsentPlatformHandler {
+	name: ConsentPlatform;
+	/** The CMP is present if any of these match; they follow `CONSENT_SELECTORS` of `removeConsentUI`. */
+	detect: string[];
+	/** Calls the JS API of the CMP to reject all optional purposes; evaluated in the page. */
+	rejectViaApi?: () => boolean;
+	/** "Reject all" or "necessary only" controls, in order of preference. */
+	rejectButtons: string[];
+}
+
+/** The known CMPs, in the order they are looked for. */
+export const CONSENT_PLATFORM_HANDLERS: ConsentPlatformHandler[] = [
+	{
+		name: 'onetrust',
+		detect: ['#onetrust-banner-sdk', '#onetrust-consent-sdk'],
+		rejectViaApi: () => {
+			const api = (window as unknown as { OneTrust?: { RejectAll?: () => void } }).OneTrust;
+			if (typeof api?.RejectAll !== 'function') return false;
+			api.RejectAll();
+			return true;
+		},
+		rejectButtons: ['#onetrust-reject-all-handler', '.ot-pc-refuse-all-handler'],
+	},
+	{
+		name: 'didomi',
+		detect: ['#didomi-host', '.didomi-popup', '.didomi-notice'],
+		rejectViaApi: () => {
+			const api = (window as unknown as { Didomi?: { setUserDisagreeToAll?: () => void } }).Didomi;
+			if (typeof api?.setUserDisagreeToAll !== 'function') return false;
+			api.setUserDisagreeToAll();
+			return true;
+		},
+		rejectButtons: ['#didomi-notice-disagree-button', '.didomi-continue-without-agreeing'],
+	},
+	{
+		name: 'quantcast',
+		detect: ['.qc-cmp2-container', '#qc-cmp2-ui'],
+		rejectButtons: [
+			'.qc-cmp2-summary-buttons button[mode="secondary"]',
+			'.qc-cmp2-footer button[mode="secondary"]',
+		],
+	},
+	{
+		name: 'cookiebot',
+		detect: ['#CybotCookiebotDialog'],
+		rejectViaApi: () => {
+			const api = (window as unknown as { Cookiebot?: { decline?: () => void } }).Cookiebot;
+			if (typeof api?.decline !== 'function') return false;
+			api.decline();
+			return true;
+		},
+		rejectButtons: [
+			'#CybotCookiebotDialogBodyButtonDecline',
+			'#CybotCookiebotDialogBodyLevelButtonLevelOptinDeclineAll',
+		],
+	},
+	{
+		name: 'iubenda',
+		detect: ['.iubenda-cs-container', '#iubenda-cs-banner'],
+		rejectButtons: ['.iubenda-cs-reject-btn', '.iubenda-cs-close-btn'],
+	},
+	{
+		name: 'osano',
+		detect: ['.osano-cm-window', '.osano-cm-dialog'],
+		rejectButtons: ['.osano-cm-denyAll', '.osano-cm-deny'],
+	},
+];
+
+/**
+ * Find a known consent management platform (CMP) in the live page and reject all optional purposes, through its JS
+ * API if it has one, or else by clicking its "reject all" control. Some CMPs keep the content hidden until a choice
+ * is made, so this must run before the content is captured. Clicks and the time given to the page to react are cut
+ * short by the budget of the step, and nothing more is tried once it is spent or the signal aborts.
+ * @returns What was done, or undefined if no known CMP is present
+ */
+export async function dismissConsent(
+	page: Page,
+	{ signal, budgetMs = Infinity }: StepLimits = {},
+): Promise<ConsentOutcome | undefined> {
+	const deadline = Date.now() + budgetMs;
+	const stopped = () => !!signal?.aborted || Date.now() >= deadline;
+	for (const handler of CONSENT_PLATFORM_HANDLERS) {
+		if (stopped()) return undefined;
+		if (!(await isPresent(page, handler.detect, signal))) continue;
+
+		if (handler.rejectViaApi && (await abortable(page.evaluate(handler.rejectViaApi), signal).catch(() => false))) {
+			await settle(page, deadline, signal);
+			return { cmp: handler.name, action: 'api' };
+		}
+		for (const selector of handler.rejectButtons) {
+			if (stopped()) break;
+			const button = page.locator(selector).first();
+			if (!(await abortable(button.isVisible(), signal).catch(() => false))) continue;
+			try {
+				await abortable(button.click({ timeout: playwrightTimeout(CLICK_TIMEOUT_MS, deadline) }), signal);
+				await settle(page, deadline, signal);
+				return { cmp: handler.name, action: 'click' };
+			} catch (err) {
+				if (signal?.aborted) break;
+				logger.warn('Failed to click the reject control of the consent banner', {
+					cmp: handler.name,
+					selector,
+					err,
+				});
+			}
+		}
+		return { cmp: handler.name, action: 'failed' };
+	}
+	return undefined;
+}
+
+/** Give the page time to react to the choice, as far as the limits of the step allow. */
+async function settle(page: Page, deadline: number, signal: AbortSignal | undefined): Promise<void> {
+	const settleMs = Math.min(SETTLE_MS, deadline - Date.now());
+	if (settleMs <= 0) return;
+	await abortable(page.waitForTimeout(settleMs), signal).catch(() => undefined);
+}
+
+async function isPresent(page: Page, selectors: string[], signal: AbortSignal | undefined): Promise<boolean> {
+	return abortable(page.locator(selectors.join(', ')).count(), signal)
+		.then((count) => count > 0)
+		.catch(() => false);
+}
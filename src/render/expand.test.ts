@@ -0,0 +1,167 @@
+// @vitest-environment jsdom
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Page } from 'playwright';
+import { EXPAND_LABEL_SOURCE, expandCollapsedContent, markExpandControls, openDetails } from 'app/render/expand.js';
+
+const options = {
+	labelSource: EXPAND_LABEL_SOURCE,
+	attribute: 'data-dw-expand',
+	max: 10,
+};
+
+describe('openDetails', () => {
+	it('opens closed details elements and reports their summaries', () => {
+		document.body.innerHTML = `
+			<details><summary>  Nutrition
+				facts </summary><p>200 kcal</p></details>
+			<details open><summary>Already open</summary></details>
+			<details><p>No summary</p></details>`;
+
+		expect(openDetails()).toEqual(['Nutrition facts', '']);
+		expect(document.querySelectorAll('details:not([open])')).toHaveLength(0);
+	});
+});
+
+describe('markExpandControls', () => {
+	beforeEach(() => {
+		// jsdom has no layout; every element is visible unless it says otherwise
+		vi.spyOn(Element.prototype, 'getBoundingClientRect').mockImplementation(function (this: Element) {
+			const size = this.hasAttribute('data-hidden') ? 0 : 20;
+			return { width: size, height: size } as DOMRect;
+		});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		document.body.innerHTML = '';
+	});
+
+	it('marks show more controls and collapsed accordion toggles', () => {
+		document.body.innerHTML = `
+			<button id="more">Show more</button>
+			<a id="full" href="#recipe">+ Read the full recipe</a>
+			<button id="toggle" aria-expanded="false" aria-controls="steps">Steps</button>
+			<button id="open" aria-expanded="true" aria-controls="notes">Show more notes</button>
+			<button id="other">Save recipe</button>
+			<button id="hidden" data-hidden>Show more</button>
+			<form><button id="submit">Show all comments</button></form>
+			<nav><button id="menu" aria-expanded="false" aria-controls="menu-items">Menu</button></nav>`;
+
+		const candidates = markExpandControls(options);
+
+		expect(candidates).toEqual([
+			{ id: 0, label: 'Show more' },
+			{ id: 1, label: '+ Read the full recipe' },
+			{ id: 2, label: 'Steps' },
+		]);
+		expect(
+			Array.from(document.querySelectorAll('[data-dw-expand]')).map((element) => [
+				element.id,
+				element.getAttribute('data-dw-expand'),
+			]),
+		).toEqual([
+			['more', '0'],
+			['full', '1'],
+			['toggle', '2'],
+		]);
+	});
+
+	it('skips links to other documents and cancels clicks on them', () => {
+		document.body.innerHTML = `
+			<a id="same" href="${location.pathname}${location.search}#steps">Show more</a>
+			<a id="other" href="/recipes/soup">Show more</a>
+			<a id="elsewhere" href="https://example.org/">See all</a>`;
+
+		const candidates = markExpandControls(options);
+		expect(candidates).toHaveLength(1);
+		expect(document.getElementById('same')?.getAttribute('data-dw-expand')).toBe('0');
+
+		const click = (id: string) =>
+			document.getElementById(id)!.dispatchEvent(new MouseEvent('click', { bubbles: true, cancelable: true }));
+		expect(click('other')).toBe(false);
+		expect(click('elsewhere')).toBe(false);
+		expect(click('same')).toBe(true);
+	});
+
+	it('marks at most the given number of controls', () => {
+		document.body.innerHTML = '<button>Show more</button>'.repeat(5);
+		expect(markExpandControls({ ...options, max: 3 })).toHaveLength(3);
+	});
+});
+
+describe('expandCollapsedContent', () => {
+	/** A page whose second control navigates to another document through a script. */
+	function fakePage({ restoredByGoBack, onClick }: { restoredByGoBack: boolean; onClick?: () => void }) {
+		let url = 'https://example.com/soup';
+		let markers = 2;
+		const page = {
+			url: () => url,
+			evaluate: vi.fn(async (fn: (arg?: unknown) => unknown) => {
+				if (fn === openDetails) return markers > 0 ? [] : ['Nutrition'];
+				if (fn === markExpandControls)
+					return [
+						{ id: 0, label: 'Show more' },
+						{ id: 1, label: 'Read the full recipe' },
+					];
+				return undefined;
+			}),
+			locator: (selector: string) => ({
+				click: async () => {
+					onClick?.();
+					if (selector.includes('"1"')) url = 'https://example.com/soup/full';
+				},
+				count: async () => markers,
+			}),
+			waitForTimeout: async () => undefined,
+			goBack: vi.fn(async () => {
+				url = 'https://example.com/soup';
+				if (!restoredByGoBack) markers = 0;
+			}),
+			goto: vi.fn(),
+		};
+		return page;
+	}
+
+	it('goes back to the requested document after a control navigated away', async () => {
+		const page = fakePage({ restoredByGoBack: true });
+		const expanded = await expandCollapsedContent(page as unknown as Page);
+
+		expect(page.goBack).toHaveBeenCalledOnce();
+		expect(page.goto).not.toHaveBeenCalled();
+		expect(page.url()).toBe('https://example.com/soup');
+		expect(expanded).toEqual([{ kind: 'control', label: 'Show more' }]);
+	});
+
+	it('only reports the details opened again when the document was reloaded', async () => {
+		const page = fakePage({ restoredByGoBack: false });
+		await expect(expandCollapsedContent(page as unknown as Page)).resolves.toEqual([
+			{ kind: 'details', label: 'Nutrition' },
+		]);
+	});
+
+	it('captures the page as it is when the requested document cannot be loaded again', async () => {
+		const page = fakePage({ restoredByGoBack: true });
+		page.goBack.mockRejectedValue(new Error('page.goBack: Timeout 5000ms exceeded'));
+		page.goto.mockRejectedValue(new Error('page.goto: net::ERR_CONNECTION_RESET'));
+
+		await expect(expandCollapsedContent(page as unknown as Page)).resolves.toEqual([]);
+		expect(page.goto).toHaveBeenCalledOnce();
+	});
+
+	it('stops clicking controls when the signal aborts', async () => {
+		const controller = new AbortController();
+		const page = fakePage({ restoredByGoBack: true, onClick: () => controller.abort() });
+
+		await expect(
+			expandCollapsedContent(page as unknown as Page, { signal: controller.signal, budgetMs: 10000 }),
+		).resolves.toEqual([{ kind: 'control', label: 'Show more' }]);
+		expect(page.goBack).not.toHaveBeenCalled();
+	});
+
+	it('clicks nothing once the budget is spent', async () => {
+		const page = fakePage({ restoredByGoBack: true });
+		await expect(expandCollapsedContent(page as unknown as Page, { budgetMs: 0 })).resolves.toEqual([]);
+		expect(page.url()).toBe('https://example.com/soup');
+	});
+});
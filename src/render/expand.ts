@@ -0,0 +1,171 @@
+import type { Page } from 'playwright';
+import type { ExpandedElement } from 'app/render/model.js';
+import { playwrightTimeout, StepLimits } from 'app/render/RenderBudget.js';
+import { logger } from 'app/util/Logger.js';
+
+const MAX_CONTROLS = 10;
+const CLICK_TIMEOUT_MS = 1000;
+const STEP_DELAY_MS = 200;
+const MARKER_ATTRIBUTE = 'data-dw-expand';
+/** Time to get back to the requested page after a control navigated away from it. */
+const RETURN_TIMEOUT_MS = 5000;
+
+/** Text of controls that reveal truncated recipe content. */
+export const EXPAND_LABEL_SOURCE =
+	'^\\s*(\\+\\s*)?(show|read|see|view)\\s+(more|all|full|the full|entire)\\b|^\\s*expand\\b';
+
+/**
+ * Open collapsed content so that the full text is captured: every `<details>` element, and controls such as "Show
+ * more", "Read full recipe" or collapsed accordion toggles. Links to other documents are never followed, and
+ * non-GET navigations stay blocked by the request router; if a control navigates anyway, e.g. through a script, the
+ * page is brought back to the requested document. No further control is clicked once the budget of the step is spent
+ * or the signal aborts.
+ * @returns The elements that were expanded
+ */
+export async function expandCollapsedContent(
+	page: Page,
+	{ signal, budgetMs = Infinity }: StepLimits = {},
+): Promise<ExpandedElement[]> {
+	const startUrl = page.url();
+	const deadline = Date.now() + budgetMs;
+	const timeout = (limitMs: number) => playwrightTimeout(limitMs, deadline);
+	let candidates: { id: number; label: string }[];
+	let expanded: ExpandedElement[];
+	try {
+		const opened = await page.evaluate(openDetails);
+		expanded = opened.map((label) => ({ kind: 'details', label }));
+		candidates = await page.evaluate(markExpandControls, {
+			labelSource: EXPAND_LABEL_SOURCE,
+			attribute: MARKER_ATTRIBUTE,
+			max: MAX_CONTROLS,
+		});
+	} catch (err) {
+		if (!String(err).includes('Execution context was destroyed')) throw err;
+		return [];
+	}
+
+	for (const { id, label } of candidates) {
+		if (signal?.aborted || Date.now() >= deadline) break;
+		let clicked = false;
+		try {
+			await page.locator(`[${MARKER_ATTRIBUTE}="${id}"]`).click({ timeout: timeout(CLICK_TIMEOUT_MS) });
+			clicked = true;
+			await page.waitForTimeout(timeout(STEP_DELAY_MS));
+		} catch {
+			// Hidden, detached or covered by an overlay; not worth failing the render for
+		}
+		if (page.url() !== startUrl) {
+			logger.warn('Stopped expanding content after the page navigated', { url: startUrl, target: page.url() });
+			expanded = await returnToPage(page, startUrl, expanded, timeout(RETURN_TIMEOUT_MS));
+			break;
+		}
+		if (clicked) expanded.push({ kind: 'control', label });
+	}
+
+	await page
+		.evaluate((attribute) => {
+			for (const element of Array.from(document.querySelectorAll(`[${attribute}]`))) {
+				element.removeAttribute(attribute);
+			}
+		}, MARKER_ATTRIBUTE)
+		.catch(() => undefined);
+	return expanded;
+}
+
+/**
+ * Bring the page back to the document that was requested after a control navigated away from it, so that the other
+ * document is not captured. If the original document was reloaded rather than restored, only its `<details>` can be
+ * opened again. If it cannot be loaded again, the page is captured as it is, with nothing reported as expanded.
+ */
+async function returnToPage(
+	page: Page,
+	startUrl: string,
+	expanded: ExpandedElement[],
+	timeout: number,
+): Promise<ExpandedElement[]> {
+	await page.goBack({ waitUntil: 'domcontentloaded', timeout }).catch(() => null);
+	if (page.url() !== startUrl) {
+		try {
+			await page.goto(startUrl, { waitUntil: 'domcontentloaded', timeout });
+		} catch (err) {
+			// Expanding is optional, so it must not fail the render
+			logger.warn('Failed to return to the requested page after expanding content', {
+				url: startUrl,
+				target: page.url(),
+				err,
+			});
+			return [];
+		}
+	}
+	const restored = await page
+		.locator(`[${MARKER_ATTRIBUTE}]`)
+		.count()
+		.then((count) => count > 0)
+		.catch(() => false);
+	if (restored) return expanded;
+	const opened = await page.evaluate(openDetails).catch(() => []);
+	return opened.map((label) => ({ kind: 'details', label }));
+}
+
+// Evaluated in the page
+
+export function openDetails(): string[] {
+	const labels: string[] = [];
+	for (const details of Array.from(document.querySelectorAll('details:not([open])'))) {
+		(details as HTMLDetailsElement).open = true;
+		labels.push((details.querySelector('summary')?.textContent ?? '').trim().replace(/\s+/g, ' ').slice(0, 80));
+	}
+	return labels;
+}
+
+export function markExpandControls({
+	labelSource,
+	attribute,
+	max,
+}: {
+	labelSource: string;
+	attribute: string;
+	max: number;
+}): { id: number; label: string }[] {
+	const labelRe = new RegExp(labelSource, 'i');
+	const isSameDocumentLink = (element: Element) => {
+		const href = element.getAttribute('href');
+		if (href === null || href === '' || href.startsWith('#') || href.startsWith('javascript:')) return true;
+		const target = new URL(href, location.href);
+		return (
+			target.origin === location.origin &&
+			target.pathname === location.pathname &&
+			target.search === location.search
+		);
+	};
+
+	// Clicks must never leave the page: cancel the default action of links to other documents
+	document.addEventListener(
+		'click',
+		(event) => {
+			const link = (event.target as Element | null)?.closest?.('a[href]');
+			if (link && !isSameDocumentLink(link)) event.preventDefault();
+		},
+		true,
+	);
+
+	const candidates: { id: number; label: string }[] = [];
+	const elements = document.querySelectorAll('button, a, [role="button"], [aria-expanded="false"]');
+	for (const element of Array.from(elements)) {
+		if (candidates.length >= max) break;
+		if (element.closest('form') || element.getAttribute('aria-expanded') === 'true') continue;
+		if (element.tagName === 'A' && !isSameDocumentLink(element)) continue;
+		const label = (element.textContent ?? '').trim().replace(/\s+/g, ' ');
+		// Accordion toggles; those of navigation menus only reveal links
+		const isCollapsedToggle =
+			element.getAttribute('aria-expanded') === 'false' &&
+			element.hasAttribute('aria-controls') &&
+			!element.closest('nav, header');
+		if (!isCollapsedToggle && !labelRe.test(label)) continue;
+		const rect = element.getBoundingClientRect();
+		if (rect.width === 0 && rect.height === 0) continue;
+		element.setAttribute(attribute, String(candidates.length));
+		candidates.push({ id: candidates.length, label: label.slice(0, 80) });
+	}
+	return candidates;
+}
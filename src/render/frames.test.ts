@@ -0,0 +1,78 @@
+// @vitest-environment jsdom
+
+import { afterEach, describe, expect, it } from 'vitest';
+import type { Page } from 'playwright';
+import { inlineChildFrames, replaceWithContent } from 'app/render/frames.js';
+import { extractJsonLdRecipesFromString } from 'app/cleaner/extractJsonLdRecipes.js';
+import { nodeDomAdapter } from 'app/cleaner/nodeDomAdapter.js';
+
+const FRAME_URL = 'https://widgets.example.com/recipe/12';
+
+const frameHtml = `<!doctype html><html><head>
+	<script type="application/ld+json">{"@type":"Recipe","name":"Tomato soup"}</script>
+	<script src="/widget.js"></script>
+	<style>.card { color: red }</style>
+</head><body>
+	<div class="card"><h2>Tomato soup</h2><ul><li>4 tomatoes</li></ul></div>
+	<script>document.title = 'widget';</script>
+	<img src="x" onerror="alert(1)">
+</body></html>`;
+
+describe('replaceWithContent', () => {
+	afterEach(() => {
+		document.body.innerHTML = '';
+	});
+
+	it('replaces the iframe with the body of its document and its structured data', () => {
+		document.body.innerHTML = `<article><p>Intro</p><iframe src="${FRAME_URL}"></iframe><p>Outro</p></article>`;
+		replaceWithContent(document.querySelector('iframe')!, { html: frameHtml, url: FRAME_URL });
+
+		expect(document.querySelector('iframe')).toBeNull();
+		const container = document.querySelector('[data-inlined-frame]')!;
+		expect(container.getAttribute('data-inlined-frame')).toBe(FRAME_URL);
+		expect(container.previousElementSibling?.textContent).toBe('Intro');
+		expect(container.querySelector('h2')?.textContent).toBe('Tomato soup');
+		expect(Array.from(container.querySelectorAll('script')).map((script) => script.getAttribute('type'))).toEqual([
+			'application/ld+json',
+		]);
+		expect(container.querySelector('style')).toBeNull();
+	});
+
+	it('leaves nothing that could run in the serialized page, but keeps the recipe extractable', () => {
+		document.body.innerHTML = `<iframe src="${FRAME_URL}"></iframe>`;
+		replaceWithContent(document.querySelector('iframe')!, { html: frameHtml, url: FRAME_URL });
+
+		const html = document.documentElement.outerHTML;
+		expect(html).not.toContain('widget.js');
+		expect(html).not.toContain("document.title = 'widget'");
+		expect(html).not.toContain('onerror');
+		expect(extractJsonLdRecipesFromString(html, nodeDomAdapter)).toMatchObject([{ name: 'Tomato soup' }]);
+	});
+});
+
+describe('inlineChildFrames', () => {
+	/** A page with one frame whose content never comes. */
+	function stuckPage() {
+		const frame = {
+			isDetached: () => false,
+			url: () => 'https://93.184.215.14/widget',
+			childFrames: () => [],
+			content: () => new Promise<string>(() => undefined),
+		};
+		return { mainFrame: () => ({ childFrames: () => [frame] }) } as unknown as Page;
+	}
+	const lookup = async () => [{ address: '93.184.215.14', family: 4 }];
+
+	it('gives up on frames once its share of the budget is spent', async () => {
+		const start = Date.now();
+		await expect(inlineChildFrames(stuckPage(), lookup, { budgetMs: 100 })).resolves.toEqual([]);
+		expect(Date.now() - start).toBeLessThan(100);
+	});
+
+	it('fails when the signal aborts', async () => {
+		const controller = new AbortController();
+		const inlining = inlineChildFrames(stuckPage(), lookup, { signal: controller.signal, budgetMs: 60_000 });
+		controller.abort(new Error('Capture ended'));
+		await expect(inlining).rejects.toThrow('Capture ended');
+	});
+});
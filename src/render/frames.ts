@@ -0,0 +1,87 @@
+import type { Frame, Page } from 'playwright';
+import { HostLookup, validateBrowserRequestUrl } from 'app/routes/renderTarget.js';
+import { isTrackerUrl } from 'app/render/trackerHosts.js';
+import { logger } from 'app/util/Logger.js';
+import { abortable, limitSignal, StepLimits } from 'app/render/RenderBudget.js';
+
+const MAX_FRAMES = 10;
+const MAX_DEPTH = 3;
+const MAX_FRAME_HTML_LENGTH = 1_000_000;
+/** Share of the budget of the step that inlining may take, leaving the rest to serialize the page. */
+const FRAMES_SHARE = 0.5;
+
+/**
+ * Replace the `<iframe>` elements of the page with the content of their documents, so that cleaning and JSON-LD
+ * extraction see embedded recipe cards. Frames are inlined depth-first; frames of trackers, frames whose URL does
+ * not pass `validateBrowserRequestUrl` and frames beyond the count and size limits are left as they are. Inlining
+ * stops once its share of the budget is spent; it only throws if the signal aborts.
+ * @returns The URLs of the inlined frames
+ */
+export async function inlineChildFrames(
+	page: Page,
+	lookup: HostLookup,
+	{ signal, budgetMs }: StepLimits & { budgetMs: number },
+): Promise<string[]> {
+	const inlined: string[] = [];
+	await inlineFramesOf(
+		page.mainFrame(),
+		lookup,
+		inlined,
+		1,
+		limitSignal({ signal, budgetMs: budgetMs * FRAMES_SHARE })!,
+	);
+	signal?.throwIfAborted();
+	return inlined;
+}
+
+async function inlineFramesOf(
+	parent: Frame,
+	lookup: HostLookup,
+	inlined: string[],
+	depth: number,
+	signal: AbortSignal,
+): Promise<void> {
+	for (const frame of parent.childFrames()) {
+		if (inlined.length >= MAX_FRAMES || signal.aborted) return;
+		if (frame.isDetached()) continue;
+		const url = frame.url();
+		try {
+			await validateBrowserRequestUrl(url, lookup);
+		} catch {
+			continue;
+		}
+		if (isTrackerUrl(url)) continue;
+
+		try {
+			if (depth < MAX_DEPTH) await inlineFramesOf(frame, lookup, inlined, depth + 1, signal);
+			const html = await abortable(frame.content(), signal);
+			if (html.length > MAX_FRAME_HTML_LENGTH) continue;
+			const frameElement = await abortable(frame.frameElement(), signal);
+			await abortable(frameElement.evaluate(replaceWithContent, { html, url }), signal);
+			await frameElement.dispose();
+			inlined.push(url);
+		} catch (err) {
+			if (signal.aborted) return;
+			// The frame navigated or was removed meanwhile
+			logger.warn('Failed to inline frame', { url: parent.page().url(), target: url, err });
+		}
+	}
+}
+
+// Evaluated in the page
+export function replaceWithContent(iframe: Element, { html, url }: { html: string; url: string }) {
+	const doc = new DOMParser().parseFromString(html, 'text/html');
+	// Keep structured data, but nothing that could run
+	for (const script of Array.from(doc.querySelectorAll('script'))) {
+		if (!/^application\/ld\+json/i.test(script.getAttribute('type') ?? '')) script.remove();
+	}
+	for (const element of Array.from(doc.querySelectorAll('*'))) {
+		for (const name of element.getAttributeNames()) {
+			if (/^on/i.test(name)) element.removeAttribute(name);
+		}
+	}
+	const container = document.createElement('div');
+	container.setAttribute('data-inlined-frame', url);
+	container.append(...Array.from(doc.head.querySelectorAll('script')), ...Array.from(doc.body.childNodes));
+	iframe.replaceWith(container);
+}
@@ -0,0 +1,198 @@
+import type { Recipe } from 'app/cleaner/extractJsonLdRecipes.js';
+import type { BLOCKABLE_RESOURCE_TYPES } from 'app/render/resourcePolicy.js';
+import type { OUTPUT_FORMATS } from 'app/render/outputFormat.js';
+import type { CleanProfileName } from 'app/cleaner/cleanProfiles.js';
+import type { Priority } from 'app/util/Semaphore.js';
+import type { RENDER_PHASES } from 'app/render/RenderBudget.js';
+
+export interface Viewport {
+	width: number;
+	height: number;
+}
+
+export interface RenderRequest {
+	url: string;
+	/** What to return as `output`; default `raw-html`, or as implied by the legacy flags below. */
+	format?: OutputFormat;
+	/** Legacy alias: `clean-html`, or `minimal-text` together with `outputMinimalText`. Ignored if `format` is set. */
+	simplify?: boolean;
+	includeJsonLdRecipes: boolean;
+	/**
+	 * Total time budget in milliseconds, divided across the phases of the render; default 20000. It starts once the
+	 * render got a browser slot: the wait for one is only bounded by the queue settings.
+	 */
+	timeout?: number;
+	viewport?: Viewport;
+	/** Legacy alias, see `simplify`. */
+	outputMinimalText?: boolean;
+	/** How to clean the page for the formats other than `raw-html`. */
+	cleaning?: CleaningOptions;
+	/** How to wait for the content after the initial load; default `auto`. */
+	waitFor?: WaitStrategy | WaitForOptions;
+	/** Scroll through the page to trigger lazy-loaded content before capturing it; default `auto`. */
+	scroll?: ScrollMode | ScrollOptions;
+	/** Open `<details>` elements and click "show more" style controls before capturing; default false. */
+	expand?: boolean;
+	/** Capture the print view of the recipe instead of the article when the page links to one. */
+	printView?: boolean;
+	/** Replace iframes with the content of their documents, e.g. embedded recipe widgets. Ignored for test files. */
+	inlineFrames?: boolean;
+	/** Serialize open and declarative shadow roots as children of their hosts, as the page is displayed. */
+	flattenShadowDom?: boolean;
+	/** Order in the queue for a browser slot; default the priority of the API key, or `normal`. */
+	priority?: Priority;
+	/**
+	 * - `use` (default): serve from the cache if possible and store fresh renders
+	 * - `bypass`: neither read nor write the cache
+	 * - `refresh`: always render and replace the cached entry
+	 */
+	cache?: 'use' | 'bypass' | 'refresh';
+	/** Which subresources to skip downloading; defaults to the server policy. */
+	resources?: ResourcePolicy;
+	/** Capture a preview of the rendered page; `true` uses the defaults. Ignored for test files. */
+	screenshot?: boolean | ScreenshotOptions;
+}
+
+/**
+ * - `raw-html`: the HTML of the rendered page
+ * - `clean-html`: the HTML minimized for LLMs by `cleanHtmlForLLM`
+ * - `minimal-text`: plain text with Markdown-like structure markers
+ * - `markdown`: Markdown of the cleaned page
+ * - `outline-json`: JSON (as a string) of the sections, paragraphs, lists and tables of the cleaned page
+ */
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export type RenderPhase = (typeof RENDER_PHASES)[number];
+
+/** Milliseconds spent in each phase of a render. */
+export type PhaseTimings = Partial<Record<RenderPhase, number>>;
+
+/** A named cleaning profile, with individual `CleanOptions` fields overridden. */
+export interface CleaningOptions {
+	/** Default `recipe-minimal`. */
+	profile?: CleanProfileName;
+	allowedTags?: string[];
+	dropMedia?: boolean;
+	strictUrls?: boolean;
+	keepTables?: boolean;
+	applyConsentUiHeuristics?: boolean;
+}
+
+/**
+ * - `auto`: finish as soon as a recipe is detectable or the DOM has settled
+ * - `network-idle`: no network connections for at least 500 ms
+ * - `selector`: an element matching `selector` is present
+ * - `jsonld-recipe`: a JSON-LD block describing a Recipe is present
+ * - `dom-stable`: no DOM mutations for `quietMs`
+ * - `none`: capture right after `DOMContentLoaded`
+ */
+export type WaitStrategy = 'auto' | 'network-idle' | 'selector' | 'jsonld-recipe' | 'dom-stable' | 'none';
+
+export interface WaitForOptions {
+	strategy?: WaitStrategy;
+	/** CSS selector for the `selector` strategy. */
+	selector?: string;
+	/** Quiet period for the `dom-stable` and `auto` strategies. */
+	quietMs?: number;
+	/** Upper bound of the wait; default 5000, at most 15000. */
+	maxWaitMs?: number;
+}
+
+/**
+ * - `auto`: scroll only if no recipe card is present after waiting
+ * - `always`: scroll every page
+ * - `never`: capture the page as it is after waiting
+ */
+export type ScrollMode = 'auto' | 'always' | 'never';
+
+export interface ScrollOptions {
+	mode?: ScrollMode;
+	/** Stop scrolling past this many CSS pixels from the top; default 20000. */
+	maxHeight?: number;
+	/** Upper bound of the time spent scrolling; default 5000, at most 15000. */
+	maxDurationMs?: number;
+}
+
+export interface ResourcePolicy {
+	/** Playwright resource types to abort, e.g. `image`, `font`, `media`. */
+	blockTypes?: ResourceType[];
+	/** Abort requests to known ad and tracker hosts. */
+	blockTrackers?: boolean;
+}
+
+export type ResourceType = (typeof BLOCKABLE_RESOURCE_TYPES)[number];
+
+export interface ScreenshotOptions {
+	/** Image format; default jpeg. */
+	format?: 'jpeg' | 'png';
+	/** JPEG quality, 1-100; ignored for png. */
+	quality?: number;
+	/** Capture the full scrollable page instead of the viewport only. */
+	fullPage?: boolean;
+	/** Maximum height of the captured image in CSS pixels. */
+	maxHeight?: number;
+	/** Capture only the first element matching this CSS selector (e.g. the recipe card), if present. */
+	selector?: string;
+}
+
+export interface Screenshot {
+	format: 'jpeg' | 'png';
+	width: number;
+	height: number;
+	base64: string;
+}
+
+export interface RenderResponse {
+	output: string;
+	format?: OutputFormat;
+	jsonLdRecipes?: Recipe[];
+	finalUrl: string;
+	/** The print view whose content is returned, when `printView` was requested and one was found. */
+	printUrl?: string;
+	screenshot?: Screenshot;
+	/** Requests of the page that were aborted; absent for test files. */
+	blockedRequests?: BlockedRequestStats;
+	/** The consent banner found in the page and what was done about it; absent if there was none. */
+	consent?: ConsentOutcome;
+	/** Collapsed elements that were opened before capturing; absent if there were none. */
+	expanded?: ExpandedElement[];
+	/** URLs of the frames whose content was inlined into the output, when `inlineFrames` was requested. */
+	inlinedFrames?: string[];
+	/** Id of the debugging artifacts, when they are kept for every render. */
+	artifactId?: string;
+	/** Present when the render cache is enabled and applies to the request. */
+	cache?: CacheInfo;
+	/** How long each phase of the render took; absent for renders served from the cache. */
+	timings?: PhaseTimings;
+}
+
+export interface CacheInfo {
+	/** `revalidated`: the entry was stale but the origin confirmed it has not changed. */
+	status: 'hit' | 'revalidated' | 'miss' | 'refresh' | 'bypass';
+	/** When the served or newly stored entry was stored or last revalidated. */
+	storedAt?: string;
+}
+
+export interface BlockedRequestStats {
+	total: number;
+	/** Requests aborted because of their resource type, by type. */
+	byResourceType: Partial<Record<string, number>>;
+	/** Requests to known ad and tracker hosts. */
+	trackers: number;
+	/** Requests to destinations that are never allowed, e.g. private addresses or other protocols. */
+	disallowed: number;
+}
+
+export type ConsentPlatform = 'onetrust' | 'didomi' | 'quantcast' | 'cookiebot' | 'iubenda' | 'osano';
+
+export interface ConsentOutcome {
+	cmp: ConsentPlatform;
+	/** `failed`: the CMP was detected but none of its reject controls could be used. */
+	action: 'api' | 'click' | 'failed';
+}
+
+export interface ExpandedElement {
+	kind: 'details' | 'control';
+	/** Text of the summary or control, truncated. */
+	label: string;
+}
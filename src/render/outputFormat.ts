@@ -0,0 +1,26 @@
+import type { CleanOutputFormat } from 'app/cleaner/cleanHtmlForLLM.js';
+import type { OutputFormat, RenderRequest } from 'app/render/model.js';
+
+export const OUTPUT_FORMATS = ['raw-html', 'clean-html', 'minimal-text', 'markdown', 'outline-json'] as const;
+
+/**
+ * The output format of a request: `format` if given, otherwise derived from the legacy `simplify` and
+ * `outputMinimalText` flags (the latter only applies together with `simplify`).
+ */
+export function resolveOutputFormat(renderRequest: RenderRequest): OutputFormat {
+	if (renderRequest.format) return renderRequest.format;
+	if (!renderRequest.simplify) return 'raw-html';
+	return renderRequest.outputMinimalText ? 'minimal-text' : 'clean-html';
+}
+
+/** @returns How `cleanHtmlForLLM` should serialize a format, or undefined if the page is returned as is */
+export function toCleanOutputFormat(format: OutputFormat): CleanOutputFormat | undefined {
+	switch (format) {
+		case 'raw-html':
+			return undefined;
+		case 'clean-html':
+			return 'html';
+		default:
+			return format;
+	}
+}
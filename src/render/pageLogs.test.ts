@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { EventEmitter } from 'node:events';
+import type { Page } from 'playwright';
+import type { Logger } from 'app/util/Logger.js';
+import { PageLogCapture } from 'app/render/pageLogs.js';
+
+function fakeLogger(level: 'debug' | 'info' = 'debug') {
+	return { isEnabled: (wanted: string) => wanted !== 'debug' || level === 'debug', debug: vi.fn(), info: vi.fn() };
+}
+
+function capture(logger = fakeLogger()) {
+	const page = new EventEmitter();
+	const pageLogs = new PageLogCapture(logger as unknown as Logger);
+	pageLogs.attach(page as unknown as Page);
+	const log = (text: string) => page.emit('console', { type: () => 'log', text: () => text });
+	const fail = (message: string) => page.emit('pageerror', new Error(message));
+	return { pageLogs, logger, log, fail };
+}
+
+describe('PageLogCapture', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('logs console messages at debug level and uncaught errors at info level', () => {
+		const { logger, log, fail } = capture();
+		log('Hello');
+		fail('Boom');
+
+		expect(logger.debug).toHaveBeenCalledWith('Page console message', { pageLogType: 'log', text: 'Hello' });
+		expect(logger.info).toHaveBeenCalledWith('Uncaught error in page', {
+			pageError: expect.objectContaining({ name: 'Error', message: 'Boom' }),
+		});
+	});
+
+	it('admits at most 10 messages per second', () => {
+		const { logger, log } = capture();
+		for (let i = 0; i < 15; i++) log(`Message ${i}`);
+		expect(logger.debug).toHaveBeenCalledTimes(10);
+
+		vi.advanceTimersByTime(1000);
+		log('Later');
+		expect(logger.debug).toHaveBeenCalledTimes(11);
+		expect(logger.debug).toHaveBeenLastCalledWith('Page console message', { pageLogType: 'log', text: 'Later' });
+	});
+
+	it('admits at most 50 messages per page, and reports how many were dropped', () => {
+		const { pageLogs, logger, log, fail } = capture();
+		for (let i = 0; i < 8; i++) {
+			for (let j = 0; j < 10; j++) log(`Message ${i}.${j}`);
+			vi.advanceTimersByTime(1000);
+		}
+		fail('Too late');
+
+		expect(logger.debug).toHaveBeenCalledTimes(50);
+		expect(logger.info).not.toHaveBeenCalled();
+		pageLogs.finish();
+		expect(logger.info).toHaveBeenCalledWith('Dropped page log messages over the rate limit', { dropped: 31 });
+	});
+
+	it('reports nothing when no message was dropped', () => {
+		const { pageLogs, logger, log } = capture();
+		log('Hello');
+		pageLogs.finish();
+
+		expect(logger.info).not.toHaveBeenCalled();
+	});
+
+	it('truncates long messages and stacks', () => {
+		const { logger, log, fail } = capture();
+		log('x'.repeat(600));
+		fail('y'.repeat(600));
+
+		expect(logger.debug.mock.calls[0][1].text).toBe(`${'x'.repeat(500)}… (600 chars)`);
+		const { pageError } = logger.info.mock.calls[0][1];
+		expect(pageError.message).toBe(`${'y'.repeat(500)}… (600 chars)`);
+		expect(pageError.stack.length).toBeLessThanOrEqual(500 + '… (99999 chars)'.length);
+	});
+
+	it('does not count console messages that are not logged at the level of the logger', () => {
+		const { pageLogs, logger, log, fail } = capture(fakeLogger('info'));
+		for (let i = 0; i < 20; i++) log(`Message ${i}`);
+		fail('Boom');
+		pageLogs.finish();
+
+		expect(logger.debug).not.toHaveBeenCalled();
+		expect(logger.info).toHaveBeenCalledOnce();
+		expect(logger.info).toHaveBeenCalledWith('Uncaught error in page', expect.anything());
+	});
+});
@@ -0,0 +1,56 @@
+import type { Page } from 'playwright';
+import type { Logger } from 'app/util/Logger.js';
+
+const MAX_MESSAGES_PER_PAGE = 50;
+/** At most this many messages within `BURST_WINDOW_MS`, so chatty pages cannot flood the logs. */
+const MAX_BURST = 10;
+const BURST_WINDOW_MS = 1000;
+const MAX_MESSAGE_LENGTH = 500;
+
+/**
+ * Log the console messages (at debug level) and uncaught errors (at info level) of a page, within rate limits and
+ * with long messages truncated. Call `finish()` once the page is done to report how many messages were dropped.
+ */
+export class PageLogCapture {
+	private logged = 0;
+	private dropped = 0;
+	private burst: number[] = [];
+
+	constructor(private readonly logger: Logger) {}
+
+	attach(page: Page) {
+		page.on('console', (msg) => {
+			if (!this.logger.isEnabled('debug')) return;
+			if (!this.admit()) return;
+			this.logger.debug('Page console message', { pageLogType: msg.type(), text: truncate(msg.text()) });
+		});
+		page.on('pageerror', (err) => {
+			if (!this.admit()) return;
+			this.logger.info('Uncaught error in page', {
+				pageError: { name: err.name, message: truncate(err.message), stack: truncate(err.stack ?? '') },
+			});
+		});
+	}
+
+	finish() {
+		if (this.dropped > 0) {
+			this.logger.info('Dropped page log messages over the rate limit', { dropped: this.dropped });
+		}
+	}
+
+	private admit(): boolean {
+		const now = Date.now();
+		this.burst = this.burst.filter((time) => now - time < BURST_WINDOW_MS);
+		if (this.logged >= MAX_MESSAGES_PER_PAGE || this.burst.length >= MAX_BURST) {
+			this.dropped++;
+			return false;
+		}
+		this.burst.push(now);
+		this.logged++;
+		return true;
+	}
+}
+
+function truncate(text: string): string {
+	return text.length > MAX_MESSAGE_LENGTH ? `${text.slice(0, MAX_MESSAGE_LENGTH)}… (${text.length} chars)` : text;
+}
@@ -0,0 +1,94 @@
+// @vitest-environment jsdom
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Page } from 'playwright';
+import { findPrintLink, followPrintView, PRINT_LINK_SELECTORS } from 'app/render/printView.js';
+
+describe('findPrintLink', () => {
+	afterEach(() => {
+		document.body.innerHTML = '';
+	});
+
+	it('prefers the print links of recipe plugins', () => {
+		document.body.innerHTML = `
+			<a href="/soup/?print=1">Print</a>
+			<a class="wprm-recipe-print" href="/wprm_print/soup">Print recipe</a>`;
+		expect(findPrintLink(PRINT_LINK_SELECTORS)).toBe(new URL('/wprm_print/soup', location.href).href);
+	});
+
+	it('only follows links on the same host', () => {
+		document.body.innerHTML = `
+			<a class="wprm-recipe-print" href="https://print.example.org/wprm_print/soup">Print recipe</a>
+			<a class="tasty-recipes-print-link" href="/tasty-recipes/print/12">Print</a>`;
+		expect(findPrintLink(PRINT_LINK_SELECTORS)).toBe(new URL('/tasty-recipes/print/12', location.href).href);
+
+		document.body.innerHTML = '<a class="wprm-recipe-print" href="https://example.org/wprm_print/soup">Print</a>';
+		expect(findPrintLink(PRINT_LINK_SELECTORS)).toBeUndefined();
+	});
+
+	it('requires generic print links to be labelled as printing', () => {
+		document.body.innerHTML = `
+			<a href="/print/issue-12">Our magazine</a>
+			<a href="/soup/?print=1" aria-label="Print this recipe"><svg></svg></a>`;
+		expect(findPrintLink(PRINT_LINK_SELECTORS)).toBe(new URL('/soup/?print=1', location.href).href);
+
+		document.body.innerHTML = '<a href="/print/issue-12">Our magazine</a>';
+		expect(findPrintLink(PRINT_LINK_SELECTORS)).toBeUndefined();
+	});
+});
+
+describe('followPrintView', () => {
+	// An address literal, so that validating the print link needs no DNS
+	const PRINT_URL = 'https://93.184.215.14/wprm_print/soup';
+
+	function fakePage() {
+		let url = 'https://93.184.215.14/soup';
+		return {
+			url: () => url,
+			evaluate: vi.fn(async () => PRINT_URL),
+			goto: vi.fn(async (target: string, _options: { timeout: number }) => {
+				url = target;
+				return { status: () => 200 };
+			}),
+			waitForSelector: vi.fn(async (_selector: string, _options: { timeout: number }) => undefined),
+			content: async () => '<h1>Soup</h1>',
+		};
+	}
+
+	it('waits for the print view as the request asks, within the budget of the step', async () => {
+		const page = fakePage();
+		await expect(
+			followPrintView(
+				page as unknown as Page,
+				{ strategy: 'selector', selector: '.recipe', maxWaitMs: 8000 },
+				{ budgetMs: 3000 },
+				async () => page.content(),
+			),
+		).resolves.toEqual({ url: PRINT_URL, captured: '<h1>Soup</h1>' });
+
+		expect(page.goto.mock.calls[0][1].timeout).toBeLessThanOrEqual(3000);
+		expect(page.waitForSelector).toHaveBeenCalledOnce();
+		const [selector, { timeout }] = page.waitForSelector.mock.calls[0];
+		expect(selector).toBe('.recipe');
+		expect(timeout).toBeLessThanOrEqual(3000);
+	});
+
+	it('gives up once the signal aborts', async () => {
+		const page = fakePage();
+		const controller = new AbortController();
+		page.goto.mockImplementation(async () => {
+			controller.abort(new Error('The capture phase exceeded its budget'));
+			return { status: () => 200 };
+		});
+
+		await expect(
+			followPrintView(
+				page as unknown as Page,
+				undefined,
+				{ signal: controller.signal, budgetMs: 3000 },
+				async () => page.content(),
+			),
+		).rejects.toThrow('The capture phase exceeded its budget');
+		expect(page.waitForSelector).not.toHaveBeenCalled();
+	});
+});
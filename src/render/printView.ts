@@ -0,0 +1,110 @@
+import type { Page } from 'playwright';
+import type { RenderRequest } from 'app/render/model.js';
+import { abortable, limitSignal, playwrightTimeout, StepLimits } from 'app/render/RenderBudget.js';
+import { validateRemoteRenderUrl } from 'app/routes/renderTarget.js';
+import { waitForContent } from 'app/render/waitFor.js';
+import { logger } from 'app/util/Logger.js';
+
+/** Links to the print views of recipe plugins, in order of preference. */
+export const PRINT_LINK_SELECTORS = [
+	'a.wprm-recipe-print[href]',
+	'a[href*="/wprm_print/"]',
+	'a.tasty-recipes-print-link[href]',
+	'a.tasty-recipes-print-button[href]',
+	'.tasty-recipes-print a[href]',
+	'a[href*="print=1"]',
+	'a[href*="/print/"]',
+];
+
+/** Share of the time left for the capture that the print view may take. */
+const PRINT_VIEW_SHARE = 0.5;
+/** Time the print view leaves at least to the rest of the capture. */
+const PRINT_VIEW_MARGIN_MS = 1000;
+
+export interface PrintView<T> {
+	/** URL of the print view after redirects. */
+	url: string;
+	/** What `capture` returned for the print view. */
+	captured: T;
+}
+
+/**
+ * Find the print view of the recipe on the current page, navigate to it and wait for its content as the request asks.
+ * The print link must stay on the same host and pass the same checks as the requested URL. The print view only gets
+ * a share of the budget of the step, so that running out of time leaves enough to return the original page.
+ * @param capture Captures the print view the same way as the original page, within the limits it is given
+ * @returns The print view, or undefined if there is none or it could not be loaded in time; the page may then be left
+ *          on a failed navigation, so capture the original page first.
+ */
+export async function followPrintView<T>(
+	page: Page,
+	waitFor: RenderRequest['waitFor'],
+	{ signal, budgetMs }: StepLimits & { budgetMs: number },
+	capture: (limits: StepLimits & { budgetMs: number }) => Promise<T>,
+): Promise<PrintView<T> | undefined> {
+	const printViewMs = Math.min(budgetMs * PRINT_VIEW_SHARE, budgetMs - PRINT_VIEW_MARGIN_MS);
+	if (printViewMs <= 0) return undefined;
+	const deadline = Date.now() + printViewMs;
+	const stepSignal = limitSignal({ signal, budgetMs: printViewMs })!;
+
+	const candidate = await abortable(page.evaluate(findPrintLink, PRINT_LINK_SELECTORS), stepSignal).catch(
+		() => undefined,
+	);
+	signal?.throwIfAborted();
+	if (!candidate) return undefined;
+
+	let printUrl: string;
+	try {
+		printUrl = await validateRemoteRenderUrl(candidate);
+	} catch (err) {
+		logger.warn('Ignoring invalid print view', { url: page.url(), target: candidate, err });
+		return undefined;
+	}
+
+	try {
+		const response = await page.goto(printUrl, {
+			waitUntil: 'domcontentloaded',
+			timeout: playwrightTimeout(printViewMs, deadline),
+		});
+		if (response && response.status() >= 400) {
+			logger.warn('Print view responded with an error', { target: printUrl, status: response.status() });
+			return undefined;
+		}
+		stepSignal.throwIfAborted();
+		const waited = await waitForContent(page, waitFor, { signal: stepSignal, budgetMs: deadline - Date.now() });
+		if (!waited.satisfied) {
+			logger.warn('Print view did not settle in time', { target: printUrl, strategy: waited.strategy });
+			return undefined;
+		}
+		return {
+			url: await validateRemoteRenderUrl(page.url()),
+			captured: await capture({ signal: stepSignal, budgetMs: deadline - Date.now() }),
+		};
+	} catch (err) {
+		signal?.throwIfAborted();
+		logger.warn('Failed to load print view', { target: printUrl, err });
+		return undefined;
+	}
+}
+
+// Evaluated in the page
+export function findPrintLink(selectors: string[]): string | undefined {
+	for (const selector of selectors) {
+		for (const link of Array.from(document.querySelectorAll<HTMLAnchorElement>(selector))) {
+			let url: URL;
+			try {
+				url = new URL(link.href, location.href);
+			} catch {
+				continue;
+			}
+			if (url.hostname !== location.hostname) continue;
+			// Generic patterns also match unrelated links; require them to be labelled as printing
+			if (selector.includes('print=1') || selector.includes('/print/')) {
+				if (!/print/i.test(`${link.textContent ?? ''} ${link.title} ${link.getAttribute('aria-label') ?? ''}`))
+					continue;
+			}
+			return url.href;
+		}
+	}
+	return undefined;
+}
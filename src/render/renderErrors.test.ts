@@ -0,0 +1,107 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { errors } from 'playwright';
+import { logRenderError, RenderError, TestFileNotFoundError, toRenderErrorResponse } from 'app/render/renderErrors.js';
+import { logger } from 'app/util/Logger.js';
+import { InvalidRenderTargetError } from 'app/routes/renderTarget.js';
+import { HardTimeoutError } from 'app/util/withHardTimeout.js';
+import { SemaphoreQueueFullError, SemaphoreTimeoutError } from 'app/util/Semaphore.js';
+import { PhaseTimeoutError } from 'app/render/RenderBudget.js';
+
+describe('toRenderErrorResponse', () => {
+	it('classifies Playwright navigation errors', () => {
+		expect(
+			toRenderErrorResponse(new Error('page.goto: net::ERR_NAME_NOT_RESOLVED at https://nope.example/')),
+		).toEqual({
+			status: 502,
+			body: {
+				code: 'DNS_FAILURE',
+				error: 'page.goto: net::ERR_NAME_NOT_RESOLVED at https://nope.example/',
+				retryable: false,
+			},
+		});
+		expect(toRenderErrorResponse(new Error('net::ERR_CONNECTION_REFUSED')).body.code).toBe('CONNECTION_REFUSED');
+		expect(toRenderErrorResponse(new Error('net::ERR_SSL_PROTOCOL_ERROR')).body.code).toBe('NETWORK_ERROR');
+		expect(toRenderErrorResponse(new errors.TimeoutError('Timeout 15000ms exceeded.')).body).toMatchObject({
+			code: 'NAVIGATION_TIMEOUT',
+			retryable: true,
+		});
+		expect(
+			toRenderErrorResponse(new Error('page.content: Target page, context or browser has been closed')).status,
+		).toBe(503);
+	});
+
+	it('classifies invalid render targets by reason', () => {
+		expect(toRenderErrorResponse(new InvalidRenderTargetError('Invalid or empty url')).body.code).toBe(
+			'INVALID_REQUEST',
+		);
+		expect(toRenderErrorResponse(new InvalidRenderTargetError('Blocked hostname: localhost', 'blocked'))).toEqual({
+			status: 400,
+			body: { code: 'BLOCKED_TARGET', error: 'Blocked hostname: localhost', retryable: false },
+		});
+		expect(toRenderErrorResponse(new InvalidRenderTargetError('Could not resolve', 'unresolvable')).body.code).toBe(
+			'DNS_FAILURE',
+		);
+	});
+
+	it('reports the target HTTP status and whether it is worth retrying', () => {
+		expect(toRenderErrorResponse(new RenderError('TARGET_HTTP_ERROR', 'HTTP 503', 503))).toEqual({
+			status: 502,
+			body: { code: 'TARGET_HTTP_ERROR', error: 'HTTP 503', retryable: true, httpStatus: 503 },
+		});
+		expect(toRenderErrorResponse(new TestFileNotFoundError('123.html')).body).toMatchObject({
+			code: 'TARGET_HTTP_ERROR',
+			retryable: false,
+			httpStatus: 404,
+		});
+	});
+
+	it('maps hard timeouts and unknown errors', () => {
+		expect(toRenderErrorResponse(new HardTimeoutError())).toMatchObject({
+			status: 504,
+			body: { code: 'HARD_TIMEOUT' },
+		});
+		expect(toRenderErrorResponse('something odd')).toMatchObject({ status: 500, body: { code: 'INTERNAL_ERROR' } });
+	});
+
+	it('maps phases that overran their budget', () => {
+		expect(toRenderErrorResponse(new PhaseTimeoutError('navigation', 5000)).body.code).toBe('NAVIGATION_TIMEOUT');
+		expect(toRenderErrorResponse(new PhaseTimeoutError('capture', 2000))).toMatchObject({
+			status: 504,
+			body: { code: 'RENDER_TIMEOUT', retryable: true },
+		});
+	});
+
+	it('maps a full or slow queue to 503 with a retry delay', () => {
+		expect(toRenderErrorResponse(new SemaphoreQueueFullError(40))).toMatchObject({
+			status: 503,
+			retryAfterSeconds: 5,
+			body: { code: 'CAPACITY_EXCEEDED', retryable: true },
+		});
+		expect(toRenderErrorResponse(new SemaphoreTimeoutError(30000))).toMatchObject({
+			status: 503,
+			retryAfterSeconds: 5,
+			body: { code: 'QUEUE_TIMEOUT', retryable: true },
+		});
+	});
+});
+
+describe('logRenderError', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('logs expected failures without their stack, and unexpected ones as errors', () => {
+		const log = vi.spyOn(logger, 'log').mockImplementation(() => undefined);
+
+		logRenderError('Error rendering', { url: 'x' }, new RenderError('INVALID_REQUEST', 'Invalid url'));
+		logRenderError('Error rendering', { url: 'x' }, new SemaphoreTimeoutError(30000));
+		const unexpected = new Error('boom');
+		logRenderError('Error rendering', { url: 'x' }, unexpected);
+
+		expect(log.mock.calls).toEqual([
+			['info', 'Error rendering', { url: 'x', code: 'INVALID_REQUEST', error: 'Invalid url' }],
+			['warn', 'Error rendering', { url: 'x', code: 'QUEUE_TIMEOUT', error: 'No slot available within 30000ms' }],
+			['error', 'Error rendering', { url: 'x', code: 'INTERNAL_ERROR', err: unexpected }],
+		]);
+	});
+});
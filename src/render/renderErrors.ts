@@ -0,0 +1,221 @@
+import { errors } from 'playwright';
+import { InvalidRenderTargetError } from 'app/routes/renderTarget.js';
+import { HardTimeoutError } from 'app/util/withHardTimeout.js';
+import { SemaphoreQueueFullError, SemaphoreTimeoutError } from 'app/util/Semaphore.js';
+import { PhaseTimeoutError } from 'app/render/RenderBudget.js';
+import { ValidationError, ValidationIssue } from 'app/validation/schema.js';
+import { logger, LogFields } from 'app/util/Logger.js';
+
+export type RenderErrorCode =
+	| 'INVALID_REQUEST'
+	| 'UNAUTHORIZED'
+	| 'NOT_FOUND'
+	| 'RATE_LIMITED'
+	| 'PAYLOAD_TOO_LARGE'
+	| 'BLOCKED_TARGET'
+	| 'DNS_FAILURE'
+	| 'CONNECTION_REFUSED'
+	| 'NETWORK_ERROR'
+	| 'TARGET_HTTP_ERROR'
+	| 'NAVIGATION_TIMEOUT'
+	| 'RENDER_TIMEOUT'
+	| 'HARD_TIMEOUT'
+	| 'BROWSER_CRASH'
+	| 'CAPACITY_EXCEEDED'
+	| 'QUEUE_TIMEOUT'
+	| 'CANCELLED'
+	| 'INTERNAL_ERROR';
+
+interface RenderErrorCodeInfo {
+	/** HTTP status of our own response. */
+	status: number;
+	/** Whether the same request may succeed if retried later. */
+	retryable: boolean;
+	/** Suggested wait before retrying, sent as `Retry-After`. */
+	retryAfterSeconds?: number;
+	/**
+	 * Level of expected failures, caused by the request, the target or the load, which are logged without a stack.
+	 * Unexpected failures have none and are logged as errors.
+	 */
+	logLevel?: 'info' | 'warn';
+}
+
+const ERROR_CODES: Record<RenderErrorCode, RenderErrorCodeInfo> = {
+	INVALID_REQUEST: { status: 400, retryable: false, logLevel: 'info' },
+	UNAUTHORIZED: { status: 401, retryable: false, logLevel: 'info' },
+	NOT_FOUND: { status: 404, retryable: false, logLevel: 'info' },
+	RATE_LIMITED: { status: 429, retryable: true, logLevel: 'info' },
+	PAYLOAD_TOO_LARGE: { status: 413, retryable: false, logLevel: 'info' },
+	BLOCKED_TARGET: { status: 400, retryable: false, logLevel: 'info' },
+	DNS_FAILURE: { status: 502, retryable: false, logLevel: 'warn' },
+	CONNECTION_REFUSED: { status: 502, retryable: true, logLevel: 'warn' },
+	NETWORK_ERROR: { status: 502, retryable: true, logLevel: 'warn' },
+	TARGET_HTTP_ERROR: { status: 502, retryable: false, logLevel: 'warn' },
+	NAVIGATION_TIMEOUT: { status: 504, retryable: true, logLevel: 'warn' },
+	RENDER_TIMEOUT: { status: 504, retryable: true, logLevel: 'warn' },
+	HARD_TIMEOUT: { status: 504, retryable: true },
+	BROWSER_CRASH: { status: 503, retryable: true },
+	CAPACITY_EXCEEDED: { status: 503, retryable: true, retryAfterSeconds: 5, logLevel: 'warn' },
+	QUEUE_TIMEOUT: { status: 503, retryable: true, retryAfterSeconds: 5, logLevel: 'warn' },
+	// Nginx's "client closed request"; the client rarely sees it
+	CANCELLED: { status: 499, retryable: true, logLevel: 'info' },
+	INTERNAL_ERROR: { status: 500, retryable: false },
+};
+
+/** HTTP statuses of the target that are worth retrying. */
+const RETRYABLE_TARGET_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+export class RenderError extends Error {
+	readonly retryable: boolean;
+	/** Field-level problems, for `INVALID_REQUEST` caused by an invalid body. */
+	fields?: ValidationIssue[];
+	/** Id of the debugging artifacts kept for the failed render. */
+	artifactId?: string;
+
+	constructor(
+		readonly code: RenderErrorCode,
+		message: string,
+		/** HTTP status returned by the target page, for `TARGET_HTTP_ERROR`. */
+		readonly httpStatus?: number,
+	) {
+		super(message);
+		this.name = 'RenderError';
+		this.retryable =
+			httpStatus !== undefined ? RETRYABLE_TARGET_STATUSES.has(httpStatus) : ERROR_CODES[code].retryable;
+	}
+
+	get status(): number {
+		return ERROR_CODES[this.code].status;
+	}
+}
+
+export class TestFileNotFoundError extends RenderError {
+	constructor(fileName: string) {
+		super('TARGET_HTTP_ERROR', `HTTP 404: test file not found: ${fileName}`, 404);
+		this.name = 'TestFileNotFoundError';
+	}
+}
+
+export interface RenderErrorBody {
+	code: RenderErrorCode;
+	error: string;
+	retryable: boolean;
+	httpStatus?: number;
+	fields?: ValidationIssue[];
+	artifactId?: string;
+}
+
+export interface RenderErrorResponse {
+	status: number;
+	/** Value of the `Retry-After` header, if any. */
+	retryAfterSeconds?: number;
+	body: RenderErrorBody;
+}
+
+export function toRenderErrorResponse(err: unknown): RenderErrorResponse {
+	const renderError = toRenderError(err);
+	const body: RenderErrorBody = {
+		code: renderError.code,
+		error: renderError.message,
+		retryable: renderError.retryable,
+	};
+	if (renderError.httpStatus !== undefined) {
+		body.httpStatus = renderError.httpStatus;
+	}
+	if (renderError.fields) {
+		body.fields = renderError.fields;
+	}
+	if (renderError.artifactId) {
+		body.artifactId = renderError.artifactId;
+	}
+	const { retryAfterSeconds } = ERROR_CODES[renderError.code];
+	return retryAfterSeconds !== undefined
+		? { status: renderError.status, retryAfterSeconds, body }
+		: { status: renderError.status, body };
+}
+
+/** Log a failed render at the level its code calls for; only unexpected failures are logged with their stack. */
+export function logRenderError(message: string, fields: LogFields, err: unknown) {
+	const { code, message: error } = toRenderError(err);
+	const { logLevel } = ERROR_CODES[code];
+	if (logLevel) logger.log(logLevel, message, { ...fields, code, error });
+	else logger.error(message, { ...fields, code, err });
+}
+
+/**
+ * Classify any error thrown while rendering, keeping the original message.
+ */
+export function toRenderError(err: unknown): RenderError {
+	if (err instanceof RenderError) return err;
+
+	const message = err instanceof Error ? err.message : String(err);
+	if (err instanceof ValidationError) {
+		return Object.assign(new RenderError('INVALID_REQUEST', message), { fields: err.issues });
+	}
+	if (isBodyParserError(err)) {
+		return new RenderError(err.type === 'entity.too.large' ? 'PAYLOAD_TOO_LARGE' : 'INVALID_REQUEST', message);
+	}
+	if (err instanceof InvalidRenderTargetError) {
+		const code =
+			err.reason === 'unresolvable'
+				? 'DNS_FAILURE'
+				: err.reason === 'blocked'
+					? 'BLOCKED_TARGET'
+					: 'INVALID_REQUEST';
+		return new RenderError(code, message);
+	}
+	if (err instanceof SemaphoreQueueFullError) return new RenderError('CAPACITY_EXCEEDED', message);
+	if (err instanceof SemaphoreTimeoutError) return new RenderError('QUEUE_TIMEOUT', message);
+	if (err instanceof PhaseTimeoutError) {
+		return new RenderError(err.phase === 'navigation' ? 'NAVIGATION_TIMEOUT' : 'RENDER_TIMEOUT', message);
+	}
+	if (err instanceof HardTimeoutError) return new RenderError('HARD_TIMEOUT', message);
+	if (err instanceof errors.TimeoutError) return new RenderError('NAVIGATION_TIMEOUT', message);
+	if (err instanceof Error && err.name === 'AbortError') return new RenderError('CANCELLED', message);
+
+	const code = classifyMessage(message);
+	return new RenderError(code, message);
+}
+
+/** Errors of the JSON body parser of Express carry a `type` like `entity.parse.failed`. */
+function isBodyParserError(err: unknown): err is Error & { type: string } {
+	return (
+		err instanceof Error &&
+		'type' in err &&
+		typeof err.type === 'string' &&
+		(err.type.startsWith('entity.') || err.type === 'encoding.unsupported' || err.type === 'charset.unsupported')
+	);
+}
+
+function classifyMessage(message: string): RenderErrorCode {
+	if (message.includes('net::ERR_NAME_NOT_RESOLVED') || message.includes('ENOTFOUND')) {
+		return 'DNS_FAILURE';
+	}
+	if (message.includes('net::ERR_CONNECTION_REFUSED') || message.includes('ECONNREFUSED')) {
+		return 'CONNECTION_REFUSED';
+	}
+	if (
+		message.includes('net::ERR_CONNECTION_TIMED_OUT') ||
+		message.includes('net::ERR_TIMED_OUT') ||
+		message.includes('ETIMEDOUT')
+	) {
+		return 'NAVIGATION_TIMEOUT';
+	}
+	if (
+		message.includes('net::ERR_') ||
+		message.includes('EHOSTUNREACH') ||
+		message.includes('ENETUNREACH') ||
+		message.includes('ECONNRESET')
+	) {
+		return 'NETWORK_ERROR';
+	}
+	if (
+		message.includes('Target page, context or browser has been closed') ||
+		message.includes('Browser has been closed') ||
+		message.includes('browser has disconnected') ||
+		message.includes('No alive browsers available')
+	) {
+		return 'BROWSER_CRASH';
+	}
+	return 'INTERNAL_ERROR';
+}
@@ -0,0 +1,171 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import type { BrowserContextOptions } from 'playwright';
+import type { RenderServices } from 'app/render/renderPage.js';
+import { renderPage } from 'app/render/renderPage.js';
+import { ArtifactStore } from 'app/render/ArtifactStore.js';
+import { RenderError } from 'app/render/renderErrors.js';
+
+let dir: string;
+
+/**
+ * A browser whose navigations never finish, unless it is given another page. Like Playwright's, closing a context
+ * makes its pending calls fail at once and writes the HAR a bit later.
+ */
+function fakeBrowser(recipePage?: ReturnType<typeof fakeRecipePage>) {
+	let closed!: () => void;
+	const whenClosed = new Promise<void>((resolve) => {
+		closed = resolve;
+	});
+	const page = recipePage ?? {
+		on: vi.fn(),
+		mainFrame: () => null,
+		goto: () =>
+			whenClosed.then(() => {
+				throw new Error('page.goto: Target page, context or browser has been closed');
+			}),
+	};
+	let harPath: string | undefined;
+	const context = {
+		clearPermissions: vi.fn(async () => undefined),
+		addInitScript: vi.fn(async () => undefined),
+		route: vi.fn(async () => undefined),
+		newPage: vi.fn(async () => page),
+		clearCookies: vi.fn(async () => undefined),
+		close: vi.fn(async () => {
+			closed();
+			await new Promise((resolve) => setTimeout(resolve, 20));
+			if (harPath) {
+				await fs.mkdir(path.dirname(harPath), { recursive: true });
+				await fs.writeFile(harPath, '{}');
+			}
+		}),
+	};
+	const browser = {
+		newContext: vi.fn(async (options: BrowserContextOptions) => {
+			harPath = options.recordHar?.path;
+			return context;
+		}),
+	};
+	return { browser, context };
+}
+
+/** A recipe page with a print view, whose recipe never shows up unless it `settles`. */
+function fakeRecipePage({ settles = false } = {}) {
+	let url = '';
+	const locator = { count: async () => 0, first: () => locator, isVisible: async () => false };
+	return {
+		on: vi.fn(),
+		mainFrame: () => null,
+		url: () => url,
+		goto: vi.fn(async (target: string) => {
+			url = target;
+			return { status: () => 200, headers: () => ({}) };
+		}),
+		locator: () => locator,
+		waitForSelector: vi.fn(() =>
+			url.endsWith('/print/') && !settles ? new Promise(() => undefined) : Promise.resolve(null),
+		),
+		// Finds the print link, or serializes the composed page
+		evaluate: vi.fn(async (fn: () => unknown) =>
+			fn.name === 'findPrintLink' ? 'https://93.184.215.14/soup/print/' : `<p>Composed ${url}</p>`,
+		),
+		content: vi.fn(async () => (url.endsWith('/print/') ? '<p>Print view</p>' : '<p>Soup</p>')),
+	};
+}
+
+function services(browser: unknown): RenderServices {
+	return {
+		browserPool: { acquire: () => browser, replace: vi.fn() },
+		config: { hardTimeoutMs: 60000, resourcePolicy: { blockTypes: [], blockTrackers: false } },
+		artifacts: new ArtifactStore({
+			dir,
+			capture: 'on-failure',
+			har: true,
+			screenshot: false,
+			trace: false,
+			maxAgeMs: 60_000,
+			maxTotalBytes: 1024 * 1024,
+		}),
+		metrics: { recordBlockedRequests: vi.fn(), recordHardTimeout: vi.fn() },
+	} as unknown as RenderServices;
+}
+
+describe('renderPage', () => {
+	beforeEach(async () => {
+		dir = await fs.mkdtemp(path.join(os.tmpdir(), 'dw-render-'));
+	});
+
+	afterEach(async () => {
+		await fs.rm(dir, { recursive: true, force: true });
+	});
+
+	it('closes the browser context of an abandoned render and discards its artifacts', async () => {
+		const { browser, context } = fakeBrowser();
+		const controller = new AbortController();
+
+		const render = renderPage(
+			{ url: 'https://example.com/soup', includeJsonLdRecipes: false },
+			{ kind: 'remote', url: 'https://example.com/soup' },
+			services(browser),
+			{ signal: controller.signal },
+		);
+		await vi.waitFor(() => expect(context.newPage).toHaveBeenCalled());
+		controller.abort(new RenderError('CANCELLED', 'The client disconnected'));
+
+		await expect(render).rejects.toMatchObject({ code: 'CANCELLED', artifactId: undefined });
+		expect(context.close).toHaveBeenCalledOnce();
+		await context.close.mock.results[0].value;
+		// The HAR written while the context closed went away with the rest
+		await expect(fs.readdir(dir)).resolves.toEqual([]);
+	});
+
+	it('keeps the original page when the print view does not settle in time', async () => {
+		const page = fakeRecipePage();
+		const { browser } = fakeBrowser(page);
+
+		const result = await renderPage(
+			{
+				url: 'https://93.184.215.14/soup',
+				includeJsonLdRecipes: false,
+				timeout: 2000,
+				waitFor: { strategy: 'selector', selector: '.recipe' },
+				scroll: 'never',
+				expand: false,
+				printView: true,
+			},
+			{ kind: 'remote', url: 'https://93.184.215.14/soup' },
+			services(browser),
+		);
+
+		expect(page.goto).toHaveBeenLastCalledWith('https://93.184.215.14/soup/print/', expect.anything());
+		expect(result.output).toContain('Soup');
+		expect(result.printUrl).toBeUndefined();
+	});
+
+	it('serializes the print view the same way as the page', async () => {
+		const { browser } = fakeBrowser(fakeRecipePage({ settles: true }));
+
+		const result = await renderPage(
+			{
+				url: 'https://93.184.215.14/soup',
+				includeJsonLdRecipes: false,
+				waitFor: { strategy: 'selector', selector: '.recipe' },
+				scroll: 'never',
+				expand: false,
+				printView: true,
+				flattenShadowDom: true,
+				format: 'raw-html',
+			},
+			{ kind: 'remote', url: 'https://93.184.215.14/soup' },
+			services(browser),
+		);
+
+		expect(result.printUrl).toBe('https://93.184.215.14/soup/print/');
+		expect(result.output).toContain('Composed https://93.184.215.14/soup/print/');
+		// Nothing is cleaned, flattening declarative shadow roots is part of the capture
+		expect(Object.keys(result.timings!)).not.toContain('cleaning');
+	});
+});
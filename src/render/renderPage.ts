@@ -0,0 +1,529 @@
+import { lookup as dnsLookup } from 'node:dns/promises';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { BrowserContext, Page } from 'playwright';
+import type { BrowserPool } from 'app/util/BrowserPool.js';
+import type { Config } from 'app/model.js';
+import type { ArtifactStore } from 'app/render/ArtifactStore.js';
+import type { RenderMetrics } from 'app/render/RenderMetrics.js';
+import { withHardTimeout } from 'app/util/withHardTimeout.js';
+import { logger } from 'app/util/Logger.js';
+import { PageLogCapture } from 'app/render/pageLogs.js';
+import { cleanHtmlForLLM, CleanOutputFormat, PageCleaningResult } from 'app/cleaner/cleanHtmlForLLM.js';
+import { resolveCleanOptions } from 'app/cleaner/cleanProfiles.js';
+import { flattenDeclarativeShadowDomInHtml } from 'app/cleaner/flattenShadowDom.js';
+import { nodeDomAdapter } from 'app/cleaner/nodeDomAdapter.js';
+import { extractJsonLdRecipesFromString } from 'app/cleaner/extractJsonLdRecipes.js';
+import {
+	HostLookup,
+	RenderTarget,
+	validateBrowserRequestUrl,
+	validateRemoteRenderUrl,
+} from 'app/routes/renderTarget.js';
+import type {
+	CleaningOptions,
+	ConsentOutcome,
+	ExpandedElement,
+	RenderRequest,
+	RenderResponse,
+	Viewport,
+} from 'app/render/model.js';
+import { RenderError, TestFileNotFoundError, toRenderError } from 'app/render/renderErrors.js';
+import { captureScreenshot } from 'app/render/screenshot.js';
+import { waitForContent } from 'app/render/waitFor.js';
+import { dismissConsent } from 'app/render/consent.js';
+import { scrollForLazyContent } from 'app/render/scroll.js';
+import { expandCollapsedContent } from 'app/render/expand.js';
+import { followPrintView } from 'app/render/printView.js';
+import { inlineChildFrames } from 'app/render/frames.js';
+import { serializeComposedPage } from 'app/render/shadowDom.js';
+import { resolveOutputFormat, toCleanOutputFormat } from 'app/render/outputFormat.js';
+import { ResourceBlocker, resolveResourcePolicy } from 'app/render/resourcePolicy.js';
+import {
+	abortable,
+	DEFAULT_RENDER_TIMEOUT_MS,
+	PhaseTimeoutError,
+	RenderBudget,
+	StepLimits,
+} from 'app/render/RenderBudget.js';
+
+export const CANONICAL_PROFILE = {
+	userAgent:
+		'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) ' +
+		'AppleWebKit/537.36 (KHTML, like Gecko) ' +
+		'Chrome/124.0.0.0 Safari/537.36',
+	//viewport: { width: 1440, height: 900 },
+	locale: 'en-US',
+	timezoneId: 'America/New_York',
+	deviceScaleFactor: 1,
+	isMobile: false,
+	hasTouch: false,
+};
+
+/** Time the browser gets beyond the budget to respond to cancellation before it is killed. */
+const HARD_TIMEOUT_GRACE_MS = 5000;
+
+const MINIMAL_REQUEST_HEADER_NAMES = new Set([
+	'accept',
+	'accept-language',
+	'content-type',
+	'origin',
+	'range',
+	'user-agent',
+]);
+
+export interface RenderServices {
+	browserPool: BrowserPool;
+	config: Config;
+	artifacts: ArtifactStore;
+	metrics: RenderMetrics;
+}
+
+export interface RenderPageHooks {
+	/** Receives the headers of the main document response, e.g. to keep its cache validators. */
+	onDocumentResponse?: (headers: Record<string, string>) => void;
+	/** Abandon the render: close the browser context at once and skip the post-processing. */
+	signal?: AbortSignal;
+	/** The time budget of the render, if it started before the call, e.g. with the wait for a slot. */
+	budget?: RenderBudget;
+}
+
+/**
+ * Render a single page in the browser pool (or read it from the test directory) and post-process it according to
+ * the request. The caller is responsible for holding a semaphore slot for the duration of the call.
+ */
+export async function renderPage(
+	renderRequest: RenderRequest,
+	renderTarget: RenderTarget,
+	{ browserPool, config, artifacts, metrics }: RenderServices,
+	hooks: RenderPageHooks = {},
+): Promise<RenderResponse> {
+	let context: BrowserContext | null = null;
+	let page: Page | null = null;
+
+	const budget = hooks.budget ?? new RenderBudget(renderRequest.timeout ?? DEFAULT_RENDER_TIMEOUT_MS);
+
+	if (renderTarget.kind === 'test') {
+		const testDir = process.env.DW_RENDERER_TEST_DIR ?? '';
+		return renderTestFile(renderRequest, testDir, renderTarget.fileName, metrics, budget);
+	}
+
+	const url = renderTarget.url;
+	const viewport = normalizeViewport(renderRequest.viewport);
+	const browser = browserPool.acquire();
+	const artifactSession = await artifacts.startSession();
+	const log = logger.child({ url });
+	const pageLogs = new PageLogCapture(log);
+	const resourceBlocker = new ResourceBlocker(resolveResourcePolicy(renderRequest, config.resourcePolicy));
+	let result: RenderResponse;
+	let renderError: RenderError | undefined;
+	// The page the print view replaced, which keeps the structured data that print views usually leave out
+	let replacedOutput: string | undefined;
+
+	// Closing the context makes the pending browser calls of the task fail at once
+	let abandoning: Promise<void> | undefined;
+	const abandon = () => {
+		const abandoned = context;
+		context = null;
+		if (abandoned) abandoning = closeContext(abandoned);
+	};
+	hooks.signal?.addEventListener('abort', abandon, { once: true });
+
+	try {
+		const task: Promise<RenderResponse> = (async () => {
+			context = await browser.newContext({
+				...CANONICAL_PROFILE,
+				acceptDownloads: false,
+				extraHTTPHeaders: {
+					'Accept-Language': 'en-US,en;q=0.9',
+				},
+				serviceWorkers: 'block',
+				viewport,
+				recordHar: artifactSession?.harPath
+					? {
+							path: artifactSession.harPath,
+							content: 'embed',
+						}
+					: undefined,
+			});
+			hooks.signal?.throwIfAborted();
+			await artifactSession?.startTracing(context);
+			await context.clearPermissions();
+			await context.addInitScript(() => {
+				const clearBrowserState = () => {
+					try {
+						window.localStorage.clear();
+					} catch (_) {
+						// Intentionally blank
+					}
+					try {
+						window.sessionStorage.clear();
+					} catch (_) {
+						// Intentionally blank
+					}
+					void indexedDB
+						.databases?.()
+						.then((databases) =>
+							Promise.all(
+								databases
+									.map((database) => database.name)
+									.filter((name): name is string => typeof name === 'string')
+									.map((name) => indexedDB.deleteDatabase(name)),
+							),
+						)
+						.catch(() => undefined);
+					void caches
+						?.keys()
+						.then((keys) => Promise.all(keys.map((key) => caches.delete(key))))
+						.catch(() => undefined);
+				};
+
+				clearBrowserState();
+				window.addEventListener('beforeunload', clearBrowserState);
+
+				const denied = 'denied';
+				const notAllowed = (name: string) =>
+					Object.assign(new Error(`${name} is disabled in this browser context`), {
+						name: 'NotAllowedError',
+					});
+
+				if ('Notification' in window) {
+					Object.defineProperty(Notification, 'permission', {
+						configurable: true,
+						get: () => denied,
+					});
+					Notification.requestPermission = async () => denied;
+				}
+
+				if ('geolocation' in navigator) {
+					const geolocationError = () => {
+						throw notAllowed('Geolocation');
+					};
+					navigator.geolocation.getCurrentPosition = ((success, error) => {
+						error?.({
+							code: 1,
+							message: 'Geolocation is disabled in this browser context',
+							PERMISSION_DENIED: 1,
+							POSITION_UNAVAILABLE: 2,
+							TIMEOUT: 3,
+						});
+						if (!error) geolocationError();
+					}) as Geolocation['getCurrentPosition'];
+					navigator.geolocation.watchPosition = ((success, error) => {
+						error?.({
+							code: 1,
+							message: 'Geolocation is disabled in this browser context',
+							PERMISSION_DENIED: 1,
+							POSITION_UNAVAILABLE: 2,
+							TIMEOUT: 3,
+						});
+						if (!error) geolocationError();
+						return 0;
+					}) as Geolocation['watchPosition'];
+				}
+
+				if ('mediaDevices' in navigator && navigator.mediaDevices) {
+					navigator.mediaDevices.getUserMedia = async () => {
+						throw notAllowed('getUserMedia');
+					};
+					navigator.mediaDevices.getDisplayMedia = async () => {
+						throw notAllowed('getDisplayMedia');
+					};
+				}
+
+				if ('clipboard' in navigator && navigator.clipboard) {
+					navigator.clipboard.read = async () => {
+						throw notAllowed('Clipboard read');
+					};
+					navigator.clipboard.readText = async () => {
+						throw notAllowed('Clipboard readText');
+					};
+					navigator.clipboard.write = async () => {
+						throw notAllowed('Clipboard write');
+					};
+					navigator.clipboard.writeText = async () => {
+						throw notAllowed('Clipboard writeText');
+					};
+				}
+			});
+			const cachedLookup = createCachedLookup();
+			await context.route('**/*', async (route) => {
+				const request = route.request();
+				const isMainFrameNavigation = request.isNavigationRequest() && request.frame() === page?.mainFrame();
+				if (isMainFrameNavigation && request.method() !== 'GET') {
+					log.warn('Blocked non-GET top-level navigation', {
+						target: request.url(),
+						method: request.method(),
+					});
+					resourceBlocker.countDisallowed();
+					await route.abort('blockedbyclient');
+					return;
+				}
+				if (resourceBlocker.shouldBlock(request, isMainFrameNavigation)) {
+					await route.abort('blockedbyclient');
+					return;
+				}
+
+				try {
+					await validateBrowserRequestUrl(request.url(), cachedLookup);
+					await route.continue({
+						headers: minimalizeRequestHeaders(request.headers()),
+					});
+				} catch (err) {
+					log.warn('Blocked outbound request', { target: request.url(), err });
+					resourceBlocker.countDisallowed();
+					await route.abort('blockedbyclient');
+				}
+			});
+			page = await context.newPage();
+			page.on('download', async (download) => {
+				log.warn('Blocked download', { target: download.url() });
+				try {
+					await download.cancel();
+				} catch (err) {
+					log.warn('Failed to cancel blocked download', { target: download.url(), err });
+				}
+			});
+			pageLogs.attach(page);
+			const livePage = page;
+			await budget.run(
+				'navigation',
+				async (_signal, budgetMs) => {
+					const response = await livePage.goto(renderTarget.url, {
+						waitUntil: 'domcontentloaded',
+						timeout: budgetMs,
+					});
+					if (response) {
+						hooks.onDocumentResponse?.(response.headers());
+						const status = response.status();
+						if (status >= 400) {
+							throw new RenderError('TARGET_HTTP_ERROR', `HTTP ${status}`, status);
+						}
+					}
+				},
+				{ signal: hooks.signal },
+			);
+
+			// Waiting is best effort: once its time is spent, the remaining steps are skipped
+			const waited: { consent?: ConsentOutcome; expanded: ExpandedElement[] } = { expanded: [] };
+			await budget
+				.run(
+					'waiting',
+					async (signal, budgetMs) => {
+						// Every step gets what is left of the phase, and stops its in-page work when the phase ends
+						const deadline = Date.now() + budgetMs;
+						const limits = () => ({ signal, budgetMs: deadline - Date.now() });
+						// CMP scripts often load after DOMContentLoaded, so look again once the content has settled
+						waited.consent = await dismissConsent(livePage, limits());
+						if (signal.aborted) return;
+						await waitForContent(livePage, renderRequest.waitFor, limits());
+						if (!waited.consent && !signal.aborted) {
+							waited.consent = await dismissConsent(livePage, limits());
+							if (waited.consent && waited.consent.action !== 'failed' && !signal.aborted) {
+								await waitForContent(livePage, renderRequest.waitFor, limits());
+							}
+						}
+						if (signal.aborted) return;
+						await scrollForLazyContent(livePage, renderRequest.scroll, limits());
+						if (signal.aborted || !renderRequest.expand) return;
+						waited.expanded = await expandCollapsedContent(livePage, limits());
+					},
+					{ signal: hooks.signal },
+				)
+				.catch((err) => {
+					if (!(err instanceof PhaseTimeoutError)) throw err;
+					log.info('Capturing the page before it settled, the time for waiting is spent', { err });
+				});
+			const { consent, expanded } = waited;
+
+			return budget.run(
+				'capture',
+				async (signal, budgetMs) => {
+					const deadline = Date.now() + budgetMs;
+					const limits = () => ({ signal, budgetMs: deadline - Date.now() });
+					const finalUrl = await validateRemoteRenderUrl(livePage.url());
+					// Take the screenshot first, as the steps below change the live document
+					const screenshot = renderRequest.screenshot
+						? await captureScreenshot(livePage, renderRequest.screenshot, viewport, limits())
+						: undefined;
+					// The print view goes through the same steps, so that it gets the same options
+					const serialize = async (stepLimits: StepLimits & { budgetMs: number }) => {
+						const inlinedFrames = renderRequest.inlineFrames
+							? await inlineChildFrames(livePage, cachedLookup, stepLimits)
+							: [];
+						const output = renderRequest.flattenShadowDom
+							? await serializeComposedPage(livePage, stepLimits.signal)
+							: await abortable(livePage.content(), stepLimits.signal);
+						return { output, inlinedFrames };
+					};
+					let captured = await serialize(limits());
+					const result: RenderResponse = { output: captured.output, finalUrl };
+					if (consent) result.consent = consent;
+					if (expanded.length > 0) result.expanded = expanded;
+					if (screenshot) result.screenshot = screenshot;
+					if (renderRequest.printView) {
+						const printView = await followPrintView(livePage, renderRequest.waitFor, limits(), serialize);
+						if (printView) {
+							replacedOutput = captured.output;
+							captured = printView.captured;
+							result.output = captured.output;
+							result.printUrl = printView.url;
+						}
+					}
+					if (captured.inlinedFrames.length > 0) result.inlinedFrames = captured.inlinedFrames;
+					result.blockedRequests = resourceBlocker.stats;
+					return result;
+				},
+				{ signal: hooks.signal },
+			);
+		})();
+
+		const hardTimeout: () => Promise<void> = async () => {
+			// Hard kill path
+			metrics.recordHardTimeout();
+			if (context) {
+				await artifactSession?.beforeClose(context, page, true);
+				await closeContext(context);
+			}
+			context = null;
+			await browserPool.replace(browser);
+		};
+
+		// The budget ends the render in time, unless the browser stops responding
+		const hardTimeoutMs = Math.max(config.hardTimeoutMs, budget.remainingMs() + HARD_TIMEOUT_GRACE_MS);
+		result = await withHardTimeout(task, hardTimeoutMs, hardTimeout);
+	} catch (err) {
+		// Whatever failed after an abort failed because of it
+		renderError = toRenderError(hooks.signal?.aborted ? hooks.signal.reason : err);
+		throw renderError;
+	} finally {
+		hooks.signal?.removeEventListener('abort', abandon);
+		metrics.recordBlockedRequests(resourceBlocker.stats);
+		pageLogs.finish();
+		// Nobody looks into aborted renders
+		const failed = !!renderError && renderError.code !== 'CANCELLED';
+		if (context) {
+			await artifactSession?.beforeClose(context, page, failed);
+			await closeContext(context);
+		}
+		// The HAR is only written once the context has closed, so the artifacts can only be discarded after that
+		await abandoning;
+		const artifactId = await artifactSession?.finish(failed);
+		if (renderError) renderError.artifactId = artifactId;
+		else if (artifactId) result!.artifactId = artifactId;
+	}
+
+	hooks.signal?.throwIfAborted();
+	return postProcess(result, renderRequest, metrics, budget, replacedOutput);
+}
+
+async function renderTestFile(
+	renderRequest: RenderRequest,
+	testDir: string,
+	fileName: string,
+	metrics: RenderMetrics,
+	budget: RenderBudget,
+): Promise<RenderResponse> {
+	let output: string;
+	try {
+		output = await fs.readFile(path.join(testDir, fileName), 'utf8');
+	} catch (err) {
+		if (err && typeof err === 'object' && 'code' in err && err.code === 'ENOENT') {
+			throw new TestFileNotFoundError(fileName);
+		}
+		throw err;
+	}
+	return postProcess({ output, finalUrl: fileName }, renderRequest, metrics, budget);
+}
+
+/**
+ * Cleaning and extraction run synchronously, so the budget can only refuse to start them once it is spent.
+ * @param jsonLdSource The HTML to extract the JSON-LD recipes from, if not the output
+ */
+function postProcess(
+	result: RenderResponse,
+	renderRequest: RenderRequest,
+	metrics: RenderMetrics,
+	budget: RenderBudget,
+	jsonLdSource?: string,
+): RenderResponse {
+	if (renderRequest.flattenShadowDom) {
+		// Completes the serialization of the page, before anything is extracted from it
+		const output = result.output;
+		result.output = budget.runSync('capture', () => flattenDeclarativeShadowDomInHtml(output, nodeDomAdapter));
+	}
+	if (renderRequest.includeJsonLdRecipes) {
+		const output = jsonLdSource ?? result.output;
+		result.jsonLdRecipes = budget.runSync('extraction', () =>
+			extractJsonLdRecipesFromString(output, nodeDomAdapter),
+		);
+	}
+	const format = resolveOutputFormat(renderRequest);
+	const cleanOutputFormat = toCleanOutputFormat(format);
+	if (cleanOutputFormat) {
+		const html = result.output;
+		const pass1 = budget.runSync('cleaning', () => cleanHtml(html, cleanOutputFormat, renderRequest.cleaning));
+		metrics.recordCleaning(pass1);
+		result = {
+			...result,
+			output: pass1.output,
+		};
+	}
+	return { ...result, format, timings: budget.timings };
+}
+
+async function closeContext(c: BrowserContext) {
+	try {
+		await c.clearCookies();
+		await c.close();
+	} catch (e) {
+		logger.warn('Caught error while closing context', { err: e });
+	}
+}
+
+export function normalizeViewport(vp?: Viewport): Viewport {
+	if (!vp) return { width: 1440, height: 900 };
+
+	return {
+		width: Math.min(Math.max(vp.width, 320), 1440),
+		height: Math.min(Math.max(vp.height, 480), 2000),
+	};
+}
+
+function cleanHtml(html: string, outputFormat: CleanOutputFormat, cleaning: CleaningOptions = {}): PageCleaningResult {
+	const { profile = 'recipe-minimal', allowedTags, ...overrides } = cleaning;
+	return cleanHtmlForLLM(
+		html,
+		nodeDomAdapter,
+		resolveCleanOptions(profile, {
+			...overrides,
+			allowedTags: allowedTags && new Set(allowedTags.map((tag) => tag.toLowerCase())),
+			outputFormat,
+		}),
+	);
+}
+
+function createCachedLookup(): HostLookup {
+	const cache = new Map<string, Promise<{ address: string; family: number }[]>>();
+
+	return async (hostname, options) => {
+		const cacheKey = hostname.toLowerCase();
+		let resultPromise = cache.get(cacheKey);
+		if (!resultPromise) {
+			resultPromise = dnsLookup(hostname, options);
+			cache.set(cacheKey, resultPromise);
+		}
+		return resultPromise;
+	};
+}
+
+function minimalizeRequestHeaders(headers: Record<string, string>): Record<string, string> {
+	const filteredHeaders = Object.fromEntries(
+		Object.entries(headers).filter(([name]) => MINIMAL_REQUEST_HEADER_NAMES.has(name.toLowerCase())),
+	);
+
+	delete filteredHeaders.cookie;
+	delete filteredHeaders.referer;
+
+	return filteredHeaders;
+}
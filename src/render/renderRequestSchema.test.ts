@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { renderRequestSchema } from 'app/render/renderRequestSchema.js';
+import { validate } from 'app/validation/schema.js';
+
+describe('renderRequestSchema', () => {
+	it('accepts a typical request', () => {
+		expect(
+			validate(
+				{
+					url: 'https://example.com/recipe',
+					simplify: true,
+					includeJsonLdRecipes: true,
+					timeout: 20000,
+					viewport: { width: 390, height: 844 },
+					waitFor: { strategy: 'selector', selector: '.wprm-recipe' },
+					scroll: { mode: 'always', maxHeight: 15000 },
+					screenshot: true,
+				},
+				renderRequestSchema,
+			),
+		).toEqual([]);
+	});
+
+	it('rejects mistyped fields that used to misbehave silently', () => {
+		expect(
+			validate(
+				{ url: 'https://example.com/', timeout: 'abc', viewport: '390x844', simplify: 'false' },
+				renderRequestSchema,
+			),
+		).toEqual([
+			{ field: 'simplify', message: 'must be a boolean' },
+			{ field: 'timeout', message: 'must be a number' },
+			{ field: 'viewport', message: 'must be an object' },
+		]);
+	});
+
+	it('requires a selector for the selector wait strategy', () => {
+		expect(
+			validate({ url: 'https://example.com/', waitFor: { strategy: 'selector' } }, renderRequestSchema),
+		).toEqual([{ field: 'waitFor.selector', message: 'is required for the selector strategy' }]);
+	});
+});
@@ -0,0 +1,98 @@
+import type { ObjectSchema, Schema } from 'app/validation/schema.js';
+import { BLOCKABLE_RESOURCE_TYPES } from 'app/render/resourcePolicy.js';
+import { OUTPUT_FORMATS } from 'app/render/outputFormat.js';
+import { CLEAN_PROFILE_NAMES } from 'app/cleaner/cleanProfiles.js';
+import { PRIORITIES } from 'app/util/Semaphore.js';
+
+const WAIT_STRATEGIES = ['auto', 'network-idle', 'selector', 'jsonld-recipe', 'dom-stable', 'none'] as const;
+
+const selectorSchema: Schema = { type: 'string', minLength: 1, maxLength: 500 };
+
+const waitForOptionsSchema: ObjectSchema = {
+	type: 'object',
+	properties: {
+		strategy: { type: 'enum', values: WAIT_STRATEGIES },
+		selector: selectorSchema,
+		quietMs: { type: 'integer', min: 0, max: 10000 },
+		maxWaitMs: { type: 'integer', min: 0, max: 15000 },
+	},
+	check: (value) =>
+		value.strategy === 'selector' && value.selector === undefined
+			? [{ field: 'selector', message: 'is required for the selector strategy' }]
+			: [],
+};
+
+const SCROLL_MODES = ['auto', 'always', 'never'] as const;
+
+const scrollOptionsSchema: ObjectSchema = {
+	type: 'object',
+	properties: {
+		mode: { type: 'enum', values: SCROLL_MODES },
+		maxHeight: { type: 'integer', min: 0, max: 50000 },
+		maxDurationMs: { type: 'integer', min: 0, max: 15000 },
+	},
+};
+
+const cleaningOptionsSchema: ObjectSchema = {
+	type: 'object',
+	properties: {
+		profile: { type: 'enum', values: CLEAN_PROFILE_NAMES },
+		allowedTags: { type: 'array', items: { type: 'string', minLength: 1, maxLength: 20 }, maxItems: 100 },
+		dropMedia: { type: 'boolean' },
+		strictUrls: { type: 'boolean' },
+		keepTables: { type: 'boolean' },
+		applyConsentUiHeuristics: { type: 'boolean' },
+	},
+};
+
+const screenshotOptionsSchema: ObjectSchema = {
+	type: 'object',
+	properties: {
+		format: { type: 'enum', values: ['jpeg', 'png'] },
+		quality: { type: 'integer', min: 1, max: 100 },
+		fullPage: { type: 'boolean' },
+		maxHeight: { type: 'integer', min: 1, max: 10000 },
+		selector: selectorSchema,
+	},
+};
+
+/** Schema of the body of `POST /render` and `POST /render/jobs`. */
+export const renderRequestSchema: ObjectSchema = {
+	type: 'object',
+	properties: {
+		url: { type: 'string', minLength: 1, maxLength: 2048, required: true },
+		format: { type: 'enum', values: OUTPUT_FORMATS },
+		simplify: { type: 'boolean' },
+		includeJsonLdRecipes: { type: 'boolean' },
+		timeout: { type: 'integer', min: 1000, max: 60000 },
+		viewport: {
+			type: 'object',
+			properties: {
+				width: { type: 'integer', min: 320, max: 1440, required: true },
+				height: { type: 'integer', min: 480, max: 2000, required: true },
+			},
+		},
+		outputMinimalText: { type: 'boolean' },
+		cleaning: cleaningOptionsSchema,
+		waitFor: { type: 'oneOf', options: [{ type: 'enum', values: WAIT_STRATEGIES }, waitForOptionsSchema] },
+		scroll: { type: 'oneOf', options: [{ type: 'enum', values: SCROLL_MODES }, scrollOptionsSchema] },
+		expand: { type: 'boolean' },
+		printView: { type: 'boolean' },
+		inlineFrames: { type: 'boolean' },
+		flattenShadowDom: { type: 'boolean' },
+		priority: { type: 'enum', values: PRIORITIES },
+		cache: { type: 'enum', values: ['use', 'bypass', 'refresh'] },
+		resources: {
+			type: 'object',
+			properties: {
+				blockTypes: {
+					type: 'array',
+					items: { type: 'enum', values: BLOCKABLE_RESOURCE_TYPES },
+					maxItems: BLOCKABLE_RESOURCE_TYPES.length,
+				},
+				blockTrackers: { type: 'boolean' },
+			},
+		},
+		screenshot: { type: 'oneOf', options: [{ type: 'boolean' }, screenshotOptionsSchema] },
+	},
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { parseResourceTypes, resolveResourcePolicy } from 'app/render/resourcePolicy.js';
+import { isTrackerUrl } from 'app/render/trackerHosts.js';
+import type { ResourcePolicy } from 'app/render/model.js';
+
+const serverDefault: Required<ResourcePolicy> = { blockTypes: ['image', 'font', 'script'], blockTrackers: true };
+
+describe('isTrackerUrl', () => {
+	it('matches listed hosts and their subdomains', () => {
+		expect(isTrackerUrl('https://securepubads.g.doubleclick.net/tag/js/gpt.js')).toBe(true);
+		expect(isTrackerUrl('https://connect.facebook.net/en_US/fbevents.js')).toBe(true);
+		expect(isTrackerUrl('https://www.facebook.net/')).toBe(false);
+		expect(isTrackerUrl('https://www.example.com/notdoubleclick.net')).toBe(false);
+		expect(isTrackerUrl('not a url')).toBe(false);
+	});
+});
+
+describe('parseResourceTypes', () => {
+	it('parses a comma-separated list', () => {
+		expect(parseResourceTypes(' image, media ,font,')).toEqual(['image', 'media', 'font']);
+		expect(parseResourceTypes('')).toEqual([]);
+	});
+
+	it('rejects types that cannot be blocked', () => {
+		expect(() => parseResourceTypes('image,document,images')).toThrow('Unknown resource types: document, images');
+	});
+});
+
+describe('resolveResourcePolicy', () => {
+	it('uses the server default when the request has no policy', () => {
+		expect(resolveResourcePolicy({ url: 'https://example.com', includeJsonLdRecipes: false }, serverDefault)).toBe(
+			serverDefault,
+		);
+	});
+
+	it('lets the request override individual settings', () => {
+		expect(
+			resolveResourcePolicy(
+				{ url: 'https://example.com', includeJsonLdRecipes: false, resources: { blockTrackers: false } },
+				serverDefault,
+			),
+		).toEqual({ blockTypes: ['image', 'font', 'script'], blockTrackers: false });
+	});
+
+	it('keeps what a screenshot needs unless the request says otherwise', () => {
+		expect(
+			resolveResourcePolicy(
+				{ url: 'https://example.com', includeJsonLdRecipes: false, screenshot: true },
+				serverDefault,
+			),
+		).toEqual({ blockTypes: ['script'], blockTrackers: true });
+	});
+});
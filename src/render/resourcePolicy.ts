@@ -0,0 +1,104 @@
+import type { Request } from 'playwright';
+import type { BlockedRequestStats, RenderRequest, ResourcePolicy, ResourceType } from 'app/render/model.js';
+import { isTrackerUrl } from 'app/render/trackerHosts.js';
+
+/** Playwright resource types that may be blocked; documents never are, or there would be nothing to render. */
+export const BLOCKABLE_RESOURCE_TYPES = [
+	'stylesheet',
+	'image',
+	'media',
+	'font',
+	'script',
+	'texttrack',
+	'xhr',
+	'fetch',
+	'eventsource',
+	'websocket',
+	'manifest',
+	'other',
+] as const;
+
+/**
+ * Parse a comma-separated list of resource types, such as the `BLOCK_RESOURCE_TYPES` setting.
+ * @throws if the list names a type that cannot be blocked
+ */
+export function parseResourceTypes(list: string): ResourceType[] {
+	const types = list
+		.split(',')
+		.map((type) => type.trim())
+		.filter(Boolean);
+	const unknown = types.filter((type) => !(BLOCKABLE_RESOURCE_TYPES as readonly string[]).includes(type));
+	if (unknown.length > 0) {
+		throw new Error(
+			`Unknown resource types: ${unknown.join(', ')}; expected ${BLOCKABLE_RESOURCE_TYPES.join(', ')}`,
+		);
+	}
+	return types as ResourceType[];
+}
+
+/** Resource types that a screenshot needs to look right. */
+const VISUAL_RESOURCE_TYPES = new Set(['stylesheet', 'image', 'media', 'font']);
+
+/**
+ * Decides which requests of a page to abort for speed, and counts them.
+ */
+export class ResourceBlocker {
+	private readonly blockTypes: Set<string>;
+	private readonly blockTrackers: boolean;
+	readonly stats: BlockedRequestStats = { total: 0, byResourceType: {}, trackers: 0, disallowed: 0 };
+
+	constructor(policy: Required<ResourcePolicy>) {
+		this.blockTypes = new Set(policy.blockTypes);
+		this.blockTrackers = policy.blockTrackers;
+	}
+
+	/**
+	 * @returns True if the request should be aborted according to the policy; the request is counted as blocked
+	 */
+	shouldBlock(request: Request, isMainFrameNavigation: boolean): boolean {
+		if (isMainFrameNavigation) return false;
+
+		const resourceType = request.resourceType();
+		if (this.blockTypes.has(resourceType)) {
+			this.stats.total++;
+			this.stats.byResourceType[resourceType] = (this.stats.byResourceType[resourceType] ?? 0) + 1;
+			return true;
+		}
+		if (this.blockTrackers && isTrackerUrl(request.url())) {
+			this.stats.total++;
+			this.stats.trackers++;
+			return true;
+		}
+		return false;
+	}
+
+	/** Count a request blocked for security reasons, e.g. to a private address. */
+	countDisallowed() {
+		this.stats.total++;
+		this.stats.disallowed++;
+	}
+}
+
+/**
+ * The policy of a request is its own, if given, or else the server default. When a screenshot is requested, the
+ * server default does not block what the screenshot needs.
+ */
+export function resolveResourcePolicy(
+	renderRequest: RenderRequest,
+	serverDefault: Required<ResourcePolicy>,
+): Required<ResourcePolicy> {
+	const requested = renderRequest.resources;
+	if (requested) {
+		return {
+			blockTypes: requested.blockTypes ?? serverDefault.blockTypes,
+			blockTrackers: requested.blockTrackers ?? serverDefault.blockTrackers,
+		};
+	}
+	if (renderRequest.screenshot) {
+		return {
+			...serverDefault,
+			blockTypes: serverDefault.blockTypes.filter((type) => !VISUAL_RESOURCE_TYPES.has(type)),
+		};
+	}
+	return serverDefault;
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { elementClip, resolveScreenshotOptions } from 'app/render/screenshot.js';
+
+describe('resolveScreenshotOptions', () => {
+	it('fills in the defaults for `true`', () => {
+		expect(resolveScreenshotOptions(true)).toEqual({
+			format: 'jpeg',
+			quality: 70,
+			fullPage: false,
+			maxHeight: 4000,
+			selector: undefined,
+		});
+	});
+
+	it('clamps the quality and the maximum height', () => {
+		expect(resolveScreenshotOptions({ quality: 0, maxHeight: 50000 })).toMatchObject({
+			quality: 1,
+			maxHeight: 10000,
+		});
+		expect(resolveScreenshotOptions({ quality: 250.4, maxHeight: 0 })).toMatchObject({
+			quality: 100,
+			maxHeight: 1,
+		});
+		expect(resolveScreenshotOptions({ maxHeight: 1200.6 }).maxHeight).toBe(1201);
+	});
+
+	it('has no quality for png', () => {
+		expect(resolveScreenshotOptions({ format: 'png', quality: 50 })).toMatchObject({
+			format: 'png',
+			quality: undefined,
+		});
+	});
+});
+
+describe('elementClip', () => {
+	it('turns viewport coordinates into document coordinates', () => {
+		expect(elementClip({ x: 10, y: -200, width: 300, height: 500 }, { x: 0, y: 1500 }, 4000)).toEqual({
+			x: 10,
+			y: 1300,
+			width: 300,
+			height: 500,
+		});
+	});
+
+	it('cuts the element at the maximum height', () => {
+		expect(elementClip({ x: 0, y: 0, width: 300, height: 6000.2 }, { x: 0, y: 0 }, 4000).height).toBe(4000);
+		expect(elementClip({ x: 0, y: 0, width: 300, height: 120.2 }, { x: 0, y: 0 }, 4000).height).toBe(121);
+	});
+});
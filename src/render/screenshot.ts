@@ -0,0 +1,109 @@
+import type { Page } from 'playwright';
+import type { Screenshot, ScreenshotOptions, Viewport } from 'app/render/model.js';
+import { abortable, playwrightTimeout, StepLimits } from 'app/render/RenderBudget.js';
+
+const DEFAULT_JPEG_QUALITY = 70;
+const DEFAULT_MAX_HEIGHT = 4000;
+const MAX_HEIGHT_LIMIT = 10000;
+
+/** Screenshot options with the defaults filled in and the numbers clamped to their ranges. */
+export interface ResolvedScreenshotOptions {
+	format: 'jpeg' | 'png';
+	quality?: number;
+	fullPage: boolean;
+	maxHeight: number;
+	selector?: string;
+}
+
+export interface Box {
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+}
+
+export function resolveScreenshotOptions(request: boolean | ScreenshotOptions): ResolvedScreenshotOptions {
+	const options: ScreenshotOptions = typeof request === 'object' ? request : {};
+	const format = options.format === 'png' ? 'png' : 'jpeg';
+	return {
+		format,
+		quality: format === 'jpeg' ? clamp(options.quality ?? DEFAULT_JPEG_QUALITY, 1, 100) : undefined,
+		fullPage: !!options.fullPage,
+		maxHeight: clamp(options.maxHeight ?? DEFAULT_MAX_HEIGHT, 1, MAX_HEIGHT_LIMIT),
+		selector: options.selector || undefined,
+	};
+}
+
+/**
+ * The clip of a full-page screenshot that covers an element, cut at `maxHeight`. `box` is relative to the viewport,
+ * as returned by `boundingBox()`, so the scroll offset of the page turns it into document coordinates.
+ */
+export function elementClip(box: Box, scroll: { x: number; y: number }, maxHeight: number): Box {
+	return {
+		x: box.x + scroll.x,
+		y: box.y + scroll.y,
+		width: box.width,
+		height: Math.min(Math.ceil(box.height), maxHeight),
+	};
+}
+
+/**
+ * Take a screenshot of the page as requested, for showing the user a preview of what was imported.
+ * If a selector is given but matches nothing visible, the page itself is captured instead. Fails if the budget of the
+ * step is spent or the signal aborts.
+ */
+export async function captureScreenshot(
+	page: Page,
+	request: boolean | ScreenshotOptions,
+	viewport: Viewport,
+	{ signal, budgetMs }: StepLimits & { budgetMs: number },
+): Promise<Screenshot> {
+	const { format, quality, fullPage, maxHeight, selector } = resolveScreenshotOptions(request);
+	const deadline = Date.now() + budgetMs;
+	const timeout = () => playwrightTimeout(budgetMs, deadline);
+
+	if (selector) {
+		const element = page.locator(selector).first();
+		const box = await abortable(element.boundingBox({ timeout: timeout() }), signal).catch(() => null);
+		signal?.throwIfAborted();
+		if (box && box.width > 0 && box.height > 0) {
+			// Earlier steps may have scrolled the page, while the clip of a full-page screenshot is in document space
+			const scroll = await abortable(
+				page.evaluate(() => ({ x: window.scrollX, y: window.scrollY })),
+				signal,
+			);
+			const clip = elementClip(box, scroll, maxHeight);
+			const buffer = await abortable(
+				page.screenshot({ type: format, quality, fullPage: true, clip, timeout: timeout() }),
+				signal,
+			);
+			return { format, width: Math.ceil(clip.width), height: clip.height, base64: buffer.toString('base64') };
+		}
+	}
+
+	let height = viewport.height;
+	if (fullPage) {
+		const scrollHeight = await abortable(
+			page.evaluate(() => document.documentElement.scrollHeight),
+			signal,
+		);
+		height = Math.max(Math.min(scrollHeight, maxHeight), 1);
+	} else {
+		height = Math.min(height, maxHeight);
+	}
+	const buffer = await abortable(
+		page.screenshot({
+			type: format,
+			quality,
+			fullPage,
+			clip: { x: 0, y: 0, width: viewport.width, height },
+			timeout: timeout(),
+		}),
+		signal,
+	);
+	return { format, width: viewport.width, height, base64: buffer.toString('base64') };
+}
+
+function clamp(value: number, min: number, max: number): number {
+	return Math.min(Math.max(Math.round(value), min), max);
+}
@@ -0,0 +1,115 @@
+// @vitest-environment jsdom
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Page } from 'playwright';
+import { scrollForLazyContent, scrollThroughPage } from 'app/render/scroll.js';
+
+const options = {
+	maxHeight: 20000,
+	maxDurationMs: 5000,
+	stepDelayMs: 200,
+	settleMs: 500,
+	stopProperty: '__dwStopScrolling',
+};
+
+/** Lay out a page of the given height, as jsdom has no layout. */
+function layOutPage(height: () => number) {
+	let scrollY = 0;
+	vi.spyOn(window, 'innerHeight', 'get').mockReturnValue(1000);
+	vi.spyOn(window, 'scrollY', 'get').mockImplementation(() => scrollY);
+	vi.spyOn(document.documentElement, 'scrollHeight', 'get').mockImplementation(height);
+	window.scrollBy = ((_x: number, y: number) => {
+		scrollY = Math.min(scrollY + y, height() - 1000);
+	}) as typeof window.scrollBy;
+	window.scrollTo = ((_x: number, y: number) => {
+		scrollY = y;
+	}) as typeof window.scrollTo;
+}
+
+describe('scrollThroughPage', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.restoreAllMocks();
+	});
+
+	it('scrolls to the bottom and back to the top', async () => {
+		layOutPage(() => 3000);
+		const outcome = scrollThroughPage(options);
+		await vi.runAllTimersAsync();
+
+		await expect(outcome).resolves.toMatchObject({ reachedBottom: true, steps: 3 });
+		expect(window.scrollY).toBe(0);
+	});
+
+	it('keeps going while content is appended at the bottom', async () => {
+		let height = 3000;
+		layOutPage(() => height);
+		const outcome = scrollThroughPage(options);
+		await vi.advanceTimersByTimeAsync(1000);
+		height = 5000;
+		await vi.runAllTimersAsync();
+
+		await expect(outcome).resolves.toMatchObject({ reachedBottom: true, steps: 6 });
+	});
+
+	it('stops at the height cap and at the time cap', async () => {
+		layOutPage(() => 100000);
+		const capped = scrollThroughPage({ ...options, maxHeight: 4000 });
+		await vi.runAllTimersAsync();
+		await expect(capped).resolves.toMatchObject({ reachedBottom: false, steps: 4 });
+
+		const timedOut = scrollThroughPage({ ...options, maxHeight: 100000, maxDurationMs: 1000 });
+		await vi.runAllTimersAsync();
+		await expect(timedOut).resolves.toMatchObject({ reachedBottom: false, steps: 5, elapsedMs: 1000 });
+	});
+
+	it('stops once the window is marked to stop, and clears the mark', async () => {
+		layOutPage(() => 100000);
+		const outcome = scrollThroughPage({ ...options, maxHeight: 100000 });
+		await vi.advanceTimersByTimeAsync(500);
+		Object.assign(window, { [options.stopProperty]: true });
+		await vi.runAllTimersAsync();
+
+		await expect(outcome).resolves.toMatchObject({ reachedBottom: false, steps: 3, elapsedMs: 600 });
+		expect(window.scrollY).toBe(0);
+		expect(options.stopProperty in window).toBe(false);
+	});
+});
+
+describe('scrollForLazyContent', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.restoreAllMocks();
+	});
+
+	it('stops when the signal aborts and leaves no mark in the page', async () => {
+		layOutPage(() => 100000);
+		// Runs the in-page functions in this document, one task later like the browser
+		const page = {
+			evaluate: <T, A>(fn: (arg: A) => T, arg: A) =>
+				new Promise<T>((resolve) => setTimeout(() => resolve(fn(arg)))),
+		} as unknown as Page;
+		const controller = new AbortController();
+
+		const scrolling = scrollForLazyContent(
+			page,
+			{ mode: 'always', maxHeight: 100000 },
+			{ signal: controller.signal },
+		);
+		await vi.advanceTimersByTimeAsync(500);
+		controller.abort();
+		await vi.runAllTimersAsync();
+
+		await expect(scrolling).resolves.toMatchObject({ scrolled: true, reachedBottom: false, steps: 3 });
+		expect(options.stopProperty in window).toBe(false);
+		expect(document.documentElement.getAttributeNames()).toEqual([]);
+	});
+});
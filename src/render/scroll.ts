@@ -0,0 +1,134 @@
+import type { Page } from 'playwright';
+import type { ScrollMode, ScrollOptions } from 'app/render/model.js';
+import type { StepLimits } from 'app/render/RenderBudget.js';
+import { RECIPE_CARD_SELECTORS } from 'app/render/waitFor.js';
+
+const DEFAULT_MAX_HEIGHT = 20000;
+const DEFAULT_MAX_DURATION_MS = 5000;
+const MAX_DURATION_LIMIT_MS = 15000;
+const STEP_DELAY_MS = 200;
+/** How long to wait for content triggered by the last step, within the maximum duration. */
+const SETTLE_MS = 500;
+/** Set on the window to stop scrolling early; a mark on the document could end up in the captured output. */
+const STOP_PROPERTY = '__dwStopScrolling';
+
+export interface ScrollOutcome {
+	scrolled: boolean;
+	/** True if the bottom of the page was reached before the height or time cap. */
+	reachedBottom: boolean;
+	steps: number;
+	elapsedMs: number;
+}
+
+/**
+ * Scroll down the page one viewport at a time so lazy-loaded content (often the recipe card itself) is loaded, then
+ * return to the top. In `auto` mode the page is only scrolled if no recipe card is present yet. Scrolling stops early
+ * once the budget of the step is spent or the signal aborts.
+ */
+export async function scrollForLazyContent(
+	page: Page,
+	request: ScrollMode | ScrollOptions = 'auto',
+	{ signal, budgetMs = Infinity }: StepLimits = {},
+): Promise<ScrollOutcome> {
+	const options: ScrollOptions = typeof request === 'string' ? { mode: request } : request;
+	const mode = options.mode ?? 'auto';
+	const notScrolled: ScrollOutcome = { scrolled: false, reachedBottom: false, steps: 0, elapsedMs: 0 };
+
+	if (mode === 'never') return notScrolled;
+	if (mode === 'auto' && (await hasRecipeCard(page))) return notScrolled;
+	if (signal?.aborted) return notScrolled;
+
+	let stopping: Promise<unknown> | undefined;
+	const stop = () => {
+		stopping = page
+			.evaluate((property) => {
+				(window as unknown as Record<string, boolean>)[property] = true;
+			}, STOP_PROPERTY)
+			.catch(() => undefined);
+	};
+	signal?.addEventListener('abort', stop, { once: true });
+	try {
+		const outcome = await page.evaluate(scrollThroughPage, {
+			maxHeight: Math.max(options.maxHeight ?? DEFAULT_MAX_HEIGHT, 0),
+			maxDurationMs: Math.min(
+				Math.max(options.maxDurationMs ?? DEFAULT_MAX_DURATION_MS, 0),
+				MAX_DURATION_LIMIT_MS,
+				Math.max(budgetMs, 0),
+			),
+			stepDelayMs: STEP_DELAY_MS,
+			settleMs: SETTLE_MS,
+			stopProperty: STOP_PROPERTY,
+		});
+		return { scrolled: true, ...outcome };
+	} catch (err) {
+		// A navigation triggered by scrolling destroys the context; carry on with the new page
+		if (!String(err).includes('Execution context was destroyed')) throw err;
+		return notScrolled;
+	} finally {
+		signal?.removeEventListener('abort', stop);
+		// The stop may land after scrolling ended by itself, and must not stop a later scroll
+		if (stopping) {
+			await stopping;
+			await page
+				.evaluate((property) => delete (window as unknown as Record<string, boolean>)[property], STOP_PROPERTY)
+				.catch(() => undefined);
+		}
+	}
+}
+
+async function hasRecipeCard(page: Page): Promise<boolean> {
+	return page
+		.locator(RECIPE_CARD_SELECTORS.join(', '))
+		.count()
+		.then((count) => count > 0)
+		.catch(() => false);
+}
+
+// Evaluated in the page
+export function scrollThroughPage({
+	maxHeight,
+	maxDurationMs,
+	stepDelayMs,
+	settleMs,
+	stopProperty,
+}: {
+	maxHeight: number;
+	maxDurationMs: number;
+	stepDelayMs: number;
+	settleMs: number;
+	/** Scrolling stops once the window has this property. */
+	stopProperty: string;
+}): Promise<Omit<ScrollOutcome, 'scrolled'>> {
+	const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+	const start = Date.now();
+	const stopped = () => stopProperty in window;
+	const timeLeft = () => (stopped() ? 0 : maxDurationMs - (Date.now() - start));
+	const atBottom = () =>
+		window.scrollY + window.innerHeight >= document.documentElement.scrollHeight - 1 ||
+		window.scrollY + window.innerHeight >= maxHeight;
+
+	return (async () => {
+		let steps = 0;
+		let reachedBottom = false;
+		while (timeLeft() > 0) {
+			if (atBottom()) {
+				// Give content appended at the bottom (infinite scroll, lazy cards) a chance to extend the page
+				const height = document.documentElement.scrollHeight;
+				await delay(Math.min(settleMs, Math.max(timeLeft(), 0)));
+				if (
+					document.documentElement.scrollHeight === height ||
+					window.scrollY + window.innerHeight >= maxHeight
+				) {
+					reachedBottom = window.scrollY + window.innerHeight < maxHeight;
+					break;
+				}
+			}
+			window.scrollBy(0, Math.max(window.innerHeight * 0.8, 100));
+			steps++;
+			await delay(Math.min(stepDelayMs, Math.max(timeLeft(), 0)));
+		}
+		window.scrollTo(0, 0);
+		delete (window as unknown as Record<string, boolean>)[stopProperty];
+		return { reachedBottom, steps, elapsedMs: Date.now() - start };
+	})();
+}
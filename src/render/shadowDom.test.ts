@@ -0,0 +1,84 @@
+// @vitest-environment jsdom
+
+import { afterEach, describe, expect, it } from 'vitest';
+import { serializeComposedDocument } from 'app/render/shadowDom.js';
+
+/** Attach an open shadow root with the given content to the element. */
+function attachShadow(host: Element, html: string): ShadowRoot {
+	const root = host.attachShadow({ mode: 'open' });
+	root.innerHTML = html;
+	return root;
+}
+
+/** The serialized body, without the rest of the document. */
+function composedBody(): string {
+	return /<body>(.*)<\/body>/s.exec(serializeComposedDocument())![1];
+}
+
+describe('serializeComposedDocument', () => {
+	afterEach(() => {
+		document.body.innerHTML = '';
+	});
+
+	it('serializes the content of open shadow roots as children of their hosts', () => {
+		document.body.innerHTML = '<recipe-card><p>Light</p></recipe-card>';
+		attachShadow(document.querySelector('recipe-card')!, '<h2>Soup</h2>');
+
+		expect(serializeComposedDocument()).toMatch(/^<!DOCTYPE html><html>/);
+		// Without a slot, the light DOM is not displayed
+		expect(composedBody()).toBe('<recipe-card><h2>Soup</h2></recipe-card>');
+	});
+
+	it('flattens nested shadow roots', () => {
+		document.body.innerHTML = '<recipe-card></recipe-card>';
+		const outer = attachShadow(
+			document.querySelector('recipe-card')!,
+			'<div><ingredient-list></ingredient-list></div>',
+		);
+		attachShadow(outer.querySelector('ingredient-list')!, '<ul><li>4 tomatoes</li></ul>');
+
+		expect(composedBody()).toBe(
+			'<recipe-card><div><ingredient-list><ul><li>4 tomatoes</li></ul></ingredient-list></div></recipe-card>',
+		);
+	});
+
+	it('replaces slots with their assigned nodes, or their fallback content', () => {
+		document.body.innerHTML = '<recipe-card><span slot="title">Soup</span>Serves 4</recipe-card>';
+		attachShadow(
+			document.querySelector('recipe-card')!,
+			'<h2><slot name="title"></slot></h2><p><slot></slot></p><footer><slot name="notes">No notes</slot></footer>',
+		);
+
+		expect(composedBody()).toBe(
+			'<recipe-card><h2><span slot="title">Soup</span></h2><p>Serves 4</p><footer>No notes</footer></recipe-card>',
+		);
+	});
+
+	it('keeps slotted nodes that are shadow hosts themselves composed', () => {
+		document.body.innerHTML = '<recipe-card><step-timer></step-timer></recipe-card>';
+		attachShadow(document.querySelector('recipe-card')!, '<section><slot></slot></section>');
+		attachShadow(document.querySelector('step-timer')!, '<time>10 min</time>');
+
+		expect(composedBody()).toBe(
+			'<recipe-card><section><step-timer><time>10 min</time></step-timer></section></recipe-card>',
+		);
+	});
+
+	it('escapes attributes and text like the rest of the document', () => {
+		document.body.innerHTML = '<recipe-card></recipe-card>';
+		const root = attachShadow(document.querySelector('recipe-card')!, '<p></p>');
+		const p = root.querySelector('p')!;
+		p.setAttribute('title', 'Salt "to taste" & pepper');
+		p.textContent = '1 < 2 & "3"';
+
+		expect(composedBody()).toBe(
+			'<recipe-card><p title="Salt &quot;to taste&quot; &amp; pepper">1 &lt; 2 &amp; "3"</p></recipe-card>',
+		);
+	});
+
+	it('keeps templates as they are', () => {
+		document.body.innerHTML = '<template><p>Later</p></template>';
+
+		expect(composedBody()).toBe('<template><p>Later</p></template>');
+	});
+});
@@ -0,0 +1,39 @@
+import type { Page } from 'playwright';
+import { abortable } from 'app/render/RenderBudget.js';
+
+/**
+ * Serialize the page as composed for display: elements with an open shadow root are serialized with the content of
+ * their shadow root as children, with each `<slot>` replaced by the nodes assigned to it. `page.content()` only
+ * serializes the light DOM, which misses content rendered by web components.
+ */
+export async function serializeComposedPage(page: Page, signal?: AbortSignal): Promise<string> {
+	return abortable(page.evaluate(serializeComposedDocument), signal);
+}
+
+// Evaluated in the page
+export function serializeComposedDocument(): string {
+	// Build the copy in an inert document, so custom elements are not upgraded and scripts do not run
+	const inert = document.implementation.createHTMLDocument('');
+
+	const composedChildren = (node: Node): Node[] => {
+		const element = node as Element;
+		const source = element.shadowRoot ?? node;
+		return Array.from(source.childNodes).flatMap(composedClone);
+	};
+
+	const composedClone = (node: Node): Node[] => {
+		if (node.nodeType !== Node.ELEMENT_NODE) return [inert.importNode(node, false)];
+		const element = node as Element;
+		if (element instanceof HTMLSlotElement) {
+			const assigned = element.assignedNodes({ flatten: true });
+			return assigned.length > 0 ? assigned.flatMap(composedClone) : composedChildren(element);
+		}
+		if (element instanceof HTMLTemplateElement) return [inert.importNode(element, true)];
+		const copy = inert.importNode(element, false);
+		copy.append(...composedChildren(element));
+		return [copy];
+	};
+
+	const root = composedClone(document.documentElement)[0] as Element;
+	return `<!DOCTYPE html>${root.outerHTML}`;
+}
@@ -0,0 +1,86 @@
+/**
+ * Hosts of common ad networks, trackers and analytics, as seen on recipe sites. A request is a tracker request if its
+ * host is one of these or a subdomain of one.
+ */
+const TRACKER_HOSTS = new Set([
+	// Google ads & analytics
+	'doubleclick.net',
+	'googlesyndication.com',
+	'googleadservices.com',
+	'googletagmanager.com',
+	'googletagservices.com',
+	'google-analytics.com',
+	'adservice.google.com',
+	// Ad networks common on food blogs
+	'mediavine.com',
+	'adthrive.com',
+	'cafemedia.com',
+	'ezoic.net',
+	'ezojs.com',
+	'amazon-adsystem.com',
+	'adnxs.com',
+	'criteo.com',
+	'criteo.net',
+	'pubmatic.com',
+	'rubiconproject.com',
+	'openx.net',
+	'casalemedia.com',
+	'indexww.com',
+	'33across.com',
+	'sharethrough.com',
+	'triplelift.com',
+	'3lift.com',
+	'teads.tv',
+	'yieldmo.com',
+	'smartadserver.com',
+	'media.net',
+	'sovrn.com',
+	'lijit.com',
+	'gumgum.com',
+	'nativo.com',
+	'adform.net',
+	'bidswitch.net',
+	'adsrvr.org',
+	'taboola.com',
+	'outbrain.com',
+	'zergnet.com',
+	// Verification & measurement
+	'moatads.com',
+	'adsafeprotected.com',
+	'doubleverify.com',
+	'scorecardresearch.com',
+	'quantserve.com',
+	'chartbeat.com',
+	'chartbeat.net',
+	// Data brokers & tag managers
+	'rlcdn.com',
+	'krxd.net',
+	'bluekai.com',
+	'demdex.net',
+	'omtrdc.net',
+	'tiqcdn.com',
+	// Analytics & session recording
+	'hotjar.com',
+	'clarity.ms',
+	'mixpanel.com',
+	'segment.io',
+	'nr-data.net',
+	// Social pixels
+	'connect.facebook.net',
+	'bat.bing.com',
+	'ads.linkedin.com',
+	'analytics.tiktok.com',
+]);
+
+export function isTrackerUrl(rawUrl: string): boolean {
+	let hostname: string;
+	try {
+		hostname = new URL(rawUrl).hostname.toLowerCase();
+	} catch {
+		return false;
+	}
+	for (let host = hostname; host.includes('.'); host = host.slice(host.indexOf('.') + 1)) {
+		if (TRACKER_HOSTS.has(host)) return true;
+	}
+	return false;
+}
@@ -0,0 +1,93 @@
+// @vitest-environment jsdom
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Page } from 'playwright';
+import { hasJsonLdRecipe, isRecipeDetectable, RECIPE_CARD_SELECTORS, waitForContent } from 'app/render/waitFor.js';
+
+function jsonLd(data: unknown, type = 'application/ld+json'): string {
+	return `<script type="${type}">${JSON.stringify(data)}</script>`;
+}
+
+describe('hasJsonLdRecipe', () => {
+	afterEach(() => {
+		document.head.innerHTML = '';
+		document.body.innerHTML = '';
+	});
+
+	it('finds Recipe blocks, also in type arrays and with the schema prefix', () => {
+		document.head.innerHTML = jsonLd({ '@context': 'https://schema.org', '@type': 'Recipe', name: 'Soup' });
+		expect(hasJsonLdRecipe()).toBe(true);
+
+		document.head.innerHTML = jsonLd({ '@type': ['Article', 'Recipe'] });
+		expect(hasJsonLdRecipe()).toBe(true);
+
+		document.head.innerHTML = jsonLd({ '@type': 'schema:Recipe' }, 'Application/LD+JSON; charset=utf-8');
+		expect(hasJsonLdRecipe()).toBe(true);
+	});
+
+	it('ignores other types and other scripts', () => {
+		document.head.innerHTML = jsonLd({ '@type': 'RecipeCollection' }) + jsonLd({ '@type': 'Article' });
+		expect(hasJsonLdRecipe()).toBe(false);
+
+		document.head.innerHTML = `<script>var data = { "@type": "Recipe" };</script>`;
+		expect(hasJsonLdRecipe()).toBe(false);
+	});
+});
+
+describe('isRecipeDetectable', () => {
+	afterEach(() => {
+		document.head.innerHTML = '';
+		document.body.innerHTML = '';
+	});
+
+	it('detects recipe cards and microdata', () => {
+		document.body.innerHTML = '<div class="wprm-recipe">Soup</div>';
+		expect(isRecipeDetectable(RECIPE_CARD_SELECTORS)).toBe(true);
+
+		document.body.innerHTML = '<div itemscope itemtype="https://SCHEMA.org/Recipe">Soup</div>';
+		expect(isRecipeDetectable(RECIPE_CARD_SELECTORS)).toBe(true);
+	});
+
+	it('detects JSON-LD recipes', () => {
+		document.body.innerHTML = jsonLd({ '@graph': [{ '@type': 'WebPage' }, { '@type': 'Recipe' }] });
+		expect(isRecipeDetectable(RECIPE_CARD_SELECTORS)).toBe(true);
+	});
+
+	it('is false for pages without a recipe', () => {
+		document.body.innerHTML = '<article class="recipe-list"><p>Our favourite soups</p></article>';
+		expect(isRecipeDetectable(RECIPE_CARD_SELECTORS)).toBe(false);
+	});
+});
+
+describe('waitForContent', () => {
+	it('waits no longer than the budget of the step', async () => {
+		const page = { waitForLoadState: vi.fn(async () => undefined) };
+		await waitForContent(
+			page as unknown as Page,
+			{ strategy: 'network-idle', maxWaitMs: 10000 },
+			{ budgetMs: 1200 },
+		);
+		await waitForContent(page as unknown as Page, { strategy: 'network-idle' }, { budgetMs: -50 });
+
+		expect(page.waitForLoadState.mock.calls).toEqual([
+			['networkidle', { timeout: 1200 }],
+			['networkidle', { timeout: 1 }],
+		]);
+	});
+
+	it('gives up as soon as the signal aborts', async () => {
+		const page = { waitForSelector: vi.fn(() => new Promise(() => undefined)) };
+		const controller = new AbortController();
+
+		const outcome = waitForContent(
+			page as unknown as Page,
+			{ strategy: 'selector', selector: '.recipe' },
+			{
+				signal: controller.signal,
+			},
+		);
+		controller.abort();
+
+		await expect(outcome).resolves.toMatchObject({ strategy: 'selector', satisfied: false });
+	});
+});
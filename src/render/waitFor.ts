@@ -0,0 +1,151 @@
+import { errors, Page } from 'playwright';
+import type { WaitForOptions, WaitStrategy } from 'app/render/model.js';
+import { abortable, playwrightTimeout, StepLimits } from 'app/render/RenderBudget.js';
+
+const DEFAULT_MAX_WAIT_MS = 5000;
+const MAX_WAIT_LIMIT_MS = 15000;
+const DEFAULT_QUIET_MS = 500;
+const AUTO_QUIET_MS = 1000;
+const POLLING_MS = 250;
+
+/** Elements that recipe plugins and microdata use to mark a recipe card. */
+export const RECIPE_CARD_SELECTORS = [
+	'[itemtype*="schema.org/Recipe" i]',
+	'.wprm-recipe',
+	'.tasty-recipes',
+	'.mv-create-card',
+	'.recipe-card',
+];
+
+export interface WaitOutcome {
+	strategy: WaitStrategy;
+	/** False if the condition was not met before the maximum wait; rendering continues anyway. */
+	satisfied: boolean;
+	elapsedMs: number;
+}
+
+/**
+ * Wait for the page content to be ready according to the requested strategy, after the initial navigation.
+ * Waiting is best effort: when the maximum wait, or the budget of the step, elapses or the signal aborts, the render
+ * proceeds with whatever has loaded.
+ */
+export async function waitForContent(
+	page: Page,
+	request?: WaitStrategy | WaitForOptions,
+	{ signal, budgetMs = Infinity }: StepLimits = {},
+): Promise<WaitOutcome> {
+	const options: WaitForOptions = typeof request === 'string' ? { strategy: request } : (request ?? {});
+	const strategy = options.strategy ?? 'auto';
+	const maxWaitMs = playwrightTimeout(
+		Math.min(options.maxWaitMs ?? DEFAULT_MAX_WAIT_MS, budgetMs, MAX_WAIT_LIMIT_MS),
+	);
+	const start = Date.now();
+
+	let satisfied = false;
+	try {
+		if (!signal?.aborted)
+			satisfied = await untilAborted(waitFor(page, strategy, options, maxWaitMs), signal, false);
+	} catch (err) {
+		// A client-side redirect destroys the context of in-page waits; carry on with the new page
+		if (!(err instanceof errors.TimeoutError) && !String(err).includes('Execution context was destroyed'))
+			throw err;
+	}
+
+	return { strategy, satisfied, elapsedMs: Date.now() - start };
+}
+
+/** @returns false if the condition was not met within `maxWaitMs` */
+async function waitFor(
+	page: Page,
+	strategy: WaitStrategy,
+	options: WaitForOptions,
+	maxWaitMs: number,
+): Promise<boolean> {
+	switch (strategy) {
+		case 'none':
+			return true;
+		case 'network-idle':
+			await page.waitForLoadState('networkidle', { timeout: maxWaitMs });
+			return true;
+		case 'selector':
+			if (!options.selector) throw new Error('waitFor.selector is required for the selector strategy');
+			await page.waitForSelector(options.selector, { state: 'attached', timeout: maxWaitMs });
+			return true;
+		case 'jsonld-recipe':
+			await page.waitForFunction(hasJsonLdRecipe, undefined, { timeout: maxWaitMs, polling: POLLING_MS });
+			return true;
+		case 'dom-stable':
+			return waitForDomStable(page, options.quietMs ?? DEFAULT_QUIET_MS, maxWaitMs);
+		case 'auto':
+			return waitAuto(page, options.quietMs ?? AUTO_QUIET_MS, maxWaitMs);
+		default:
+			throw new Error(`Unknown wait strategy: ${String(strategy)}`);
+	}
+}
+
+/**
+ * Settle with `fallback` as soon as the signal aborts. The in-page work is not interrupted, but it ends by itself
+ * within its own timeout.
+ */
+function untilAborted<T>(work: Promise<T>, signal: AbortSignal | undefined, fallback: T): Promise<T> {
+	return abortable(work, signal).catch((err) => {
+		if (signal?.aborted) return fallback;
+		throw err;
+	});
+}
+
+/**
+ * Finish as soon as a recipe is detectable (JSON-LD, microdata or a known recipe card), or once the DOM has settled.
+ */
+async function waitAuto(page: Page, quietMs: number, maxWaitMs: number): Promise<boolean> {
+	const recipe = page
+		.waitForFunction(isRecipeDetectable, RECIPE_CARD_SELECTORS, { timeout: maxWaitMs, polling: POLLING_MS })
+		.then(() => true);
+	const stable = waitForDomStable(page, quietMs, maxWaitMs);
+	// Avoid unhandled rejections from the loser of the race
+	recipe.catch(() => undefined);
+	stable.catch(() => undefined);
+	return Promise.race([recipe, stable]);
+}
+
+/**
+ * Resolve once no DOM mutations have been observed for `quietMs`; false if the page kept changing until `maxWaitMs`.
+ */
+function waitForDomStable(page: Page, quietMs: number, maxWaitMs: number): Promise<boolean> {
+	return page.evaluate(
+		([quiet, max]) =>
+			new Promise<boolean>((resolve) => {
+				let quietTimer: ReturnType<typeof setTimeout>;
+				const finish = (stable: boolean) => {
+					observer.disconnect();
+					clearTimeout(quietTimer);
+					clearTimeout(maxTimer);
+					resolve(stable);
+				};
+				const observer = new MutationObserver(() => {
+					clearTimeout(quietTimer);
+					quietTimer = setTimeout(() => finish(true), quiet);
+				});
+				observer.observe(document, { childList: true, subtree: true, characterData: true });
+				quietTimer = setTimeout(() => finish(true), quiet);
+				const maxTimer = setTimeout(() => finish(false), max);
+			}),
+		[quietMs, maxWaitMs] as const,
+	);
+}
+
+// The following are evaluated in the page, which only gets their source: like every function passed to
+// `page.evaluate()`, they must be self-contained
+
+export function hasJsonLdRecipe(): boolean {
+	return Array.from(document.querySelectorAll('script[type^="application/ld+json" i]')).some((script) =>
+		/"@type"\s*:\s*(\[[^\]]*)?"(schema:)?Recipe"/.test(script.textContent ?? ''),
+	);
+}
+
+export function isRecipeDetectable(recipeCardSelectors: string[]): boolean {
+	if (recipeCardSelectors.some((selector) => document.querySelector(selector))) return true;
+	return Array.from(document.querySelectorAll('script[type^="application/ld+json" i]')).some((script) =>
+		/"@type"\s*:\s*(\[[^\]]*)?"(schema:)?Recipe"/.test(script.textContent ?? ''),
+	);
+}
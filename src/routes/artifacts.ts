@@ -0,0 +1,59 @@
+import type { Request, RequestHandler, Response, Router } from 'express';
+import { Router as createRouter } from 'express';
+import { timingSafeEqual } from 'node:crypto';
+import type { ArtifactStore } from 'app/render/ArtifactStore.js';
+import { RenderError, toRenderErrorResponse } from 'app/render/renderErrors.js';
+
+/**
+ * Download of debugging artifacts, protected by a bearer token. Without a configured token the routes do not exist.
+ */
+export function artifactsRouter(artifacts: ArtifactStore): Router {
+	const router = createRouter();
+	const accessToken = artifacts.config.accessToken;
+	if (!accessToken) return router;
+
+	const requireToken: RequestHandler = (req, res, next) => {
+		if (!hasToken(req, accessToken)) {
+			const { status, body } = toRenderErrorResponse(new RenderError('UNAUTHORIZED', 'Missing or invalid token'));
+			res.status(status).set('WWW-Authenticate', 'Bearer').json(body);
+			return;
+		}
+		next();
+	};
+
+	router.get('/artifacts/:id', requireToken, async (req, res) => {
+		const names = await artifacts.list(req.params.id as string);
+		if (!names) {
+			sendUnknownArtifact(res);
+			return;
+		}
+		res.json({ id: req.params.id, files: names });
+	});
+
+	router.get('/artifacts/:id/:name', requireToken, (req, res) => {
+		const file = artifacts.resolve(req.params.id as string, req.params.name as string);
+		if (!file) {
+			sendUnknownArtifact(res);
+			return;
+		}
+		res.download(file, `${req.params.id}-${req.params.name}`, (err) => {
+			if (err && !res.headersSent) sendUnknownArtifact(res);
+		});
+	});
+
+	return router;
+}
+
+function sendUnknownArtifact(res: Response) {
+	const { status, body } = toRenderErrorResponse(new RenderError('NOT_FOUND', 'Unknown artifact'));
+	res.status(status).json(body);
+}
+
+function hasToken(req: Request, accessToken: string): boolean {
+	const header = req.get('authorization') ?? '';
+	const match = /^Bearer\s+(.+)$/i.exec(header);
+	if (!match) return false;
+	const given = Buffer.from(match[1]);
+	const expected = Buffer.from(accessToken);
+	return given.length === expected.length && timingSafeEqual(given, expected);
+}
@@ -0,0 +1,223 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import express from 'express';
+import type { RenderHooks, Renderer } from 'app/render/Renderer.js';
+import type { RenderResponse } from 'app/render/model.js';
+import { RenderJobStore } from 'app/render/RenderJobStore.js';
+import { RenderError } from 'app/render/renderErrors.js';
+import { authenticate, enforceClientQuotas, staticApiKeyAuthenticator } from 'app/routes/auth.js';
+import { renderRouter } from 'app/routes/render.js';
+import { renderJobsRouter } from 'app/routes/renderJobs.js';
+import { ClientQuotas } from 'app/util/ClientQuotas.js';
+
+const ALICE = 'alice-key-0123456789';
+const BOB = 'bob-key-0123456789';
+const SOUP = { output: 'soup', finalUrl: 'https://example.com/soup' };
+
+let server: http.Server | undefined;
+
+/** Renders that start at once and finish when the test says so, or with the signal of the request. */
+function fakeRenderer() {
+	const pending: { resolve: (result: RenderResponse) => void; reject: (err: unknown) => void }[] = [];
+	const render = vi.fn(
+		(_request, hooks: RenderHooks) =>
+			new Promise<RenderResponse>((resolve, reject) => {
+				pending.push({ resolve, reject });
+				hooks.onStarted?.();
+				hooks.signal?.addEventListener('abort', () => reject(hooks.signal?.reason));
+			}),
+	);
+	return { render, pending };
+}
+
+/** The render routes behind authentication and quotas, as the app sets them up. */
+async function listen(renderer: ReturnType<typeof fakeRenderer>, { requestsPerMinute = 10 } = {}): Promise<number> {
+	const jobStore = new RenderJobStore((renderRequest, hooks) => renderer.render(renderRequest, hooks), {
+		maxJobs: 10,
+		resultTtlMs: 60_000,
+	});
+	const app = express();
+	app.use(express.json());
+	app.use(
+		'/render',
+		authenticate(
+			staticApiKeyAuthenticator({
+				apiKeys: [
+					{ id: 'alice', key: ALICE },
+					{ id: 'bob', key: BOB },
+				],
+				defaultLimits: { requestsPerMinute, maxConcurrent: 1 },
+			}),
+		),
+	);
+	app.post(['/render', '/render/jobs'], enforceClientQuotas(new ClientQuotas()));
+	app.use(renderRouter(renderer as unknown as Renderer, { maxQueueWaitMs: 1000 }));
+	app.use(renderJobsRouter(jobStore));
+	server = http.createServer(app);
+	await new Promise<void>((resolve) => server!.listen(0, '127.0.0.1', resolve));
+	return (server.address() as AddressInfo).port;
+}
+
+interface Reply {
+	status: number;
+	headers: http.IncomingHttpHeaders;
+	body: Record<string, unknown>;
+}
+
+function send(
+	port: number,
+	method: string,
+	path: string,
+	headers: Record<string, string> = {},
+): { req: http.ClientRequest; reply: Promise<Reply> } {
+	const req = http.request({ port, method, path, headers: { 'Content-Type': 'application/json', ...headers } });
+	const reply = new Promise<Reply>((resolve, reject) => {
+		req.on('error', reject);
+		req.on('response', (res) => {
+			let text = '';
+			res.setEncoding('utf8');
+			res.on('data', (chunk: string) => (text += chunk));
+			res.on('end', () => resolve({ status: res.statusCode!, headers: res.headers, body: JSON.parse(text) }));
+		});
+	});
+	req.end(method === 'POST' ? JSON.stringify({ url: 'https://example.com/soup' }) : undefined);
+	return { req, reply };
+}
+
+const bearer = (key: string) => ({ Authorization: `Bearer ${key}` });
+
+describe('authenticate', () => {
+	afterEach(async () => {
+		await new Promise((resolve) => server?.close(resolve));
+		server = undefined;
+	});
+
+	it('rejects requests without a valid key with 401', async () => {
+		const renderer = fakeRenderer();
+		const port = await listen(renderer);
+
+		const attempts: Record<string, string>[] = [
+			{},
+			bearer('wrong-key-0123456789'),
+			{ 'X-API-Key': 'wrong-key-0123456789' },
+		];
+		for (const headers of attempts) {
+			const { status, headers: replyHeaders, body } = await send(port, 'POST', '/render', headers).reply;
+			expect(status).toBe(401);
+			expect(replyHeaders['www-authenticate']).toBe('Bearer');
+			expect(body).toMatchObject({ code: 'UNAUTHORIZED' });
+		}
+		expect((await send(port, 'GET', '/render/jobs/123').reply).status).toBe(401);
+		expect(renderer.render).not.toHaveBeenCalled();
+	});
+
+	it('accepts the key as a bearer token or in X-API-Key', async () => {
+		const renderer = fakeRenderer();
+		const port = await listen(renderer);
+
+		const first = send(port, 'POST', '/render', bearer(ALICE)).reply;
+		await vi.waitFor(() => expect(renderer.pending).toHaveLength(1));
+		renderer.pending[0].resolve(SOUP);
+		expect((await first).status).toBe(200);
+
+		const second = send(port, 'POST', '/render', { 'X-API-Key': ALICE }).reply;
+		await vi.waitFor(() => expect(renderer.pending).toHaveLength(2));
+		renderer.pending[1].resolve(SOUP);
+		expect((await second).status).toBe(200);
+	});
+});
+
+describe('enforceClientQuotas', () => {
+	afterEach(async () => {
+		await new Promise((resolve) => server?.close(resolve));
+		server = undefined;
+	});
+
+	it('reports the quotas and rejects requests over the rate limit with 429 and Retry-After', async () => {
+		const renderer = fakeRenderer();
+		const port = await listen(renderer, { requestsPerMinute: 1 });
+
+		const first = send(port, 'POST', '/render', bearer(ALICE)).reply;
+		await vi.waitFor(() => expect(renderer.pending).toHaveLength(1));
+		renderer.pending[0].resolve(SOUP);
+		const { status, headers } = await first;
+		expect(status).toBe(200);
+		expect(headers).toMatchObject({
+			'ratelimit-limit': '1',
+			'ratelimit-remaining': '0',
+			'x-concurrency-limit': '1',
+			'x-concurrency-remaining': '0',
+		});
+		expect(Number(headers['ratelimit-reset'])).toBeGreaterThan(0);
+
+		const limited = await send(port, 'POST', '/render', bearer(ALICE)).reply;
+		expect(limited.status).toBe(429);
+		expect(limited.body).toMatchObject({ code: 'RATE_LIMITED', retryable: true });
+		expect(Number(limited.headers['retry-after'])).toBeGreaterThan(0);
+		expect(limited.headers['ratelimit-remaining']).toBe('0');
+		// Each client has its own quotas
+		const other = send(port, 'POST', '/render', bearer(BOB)).reply;
+		await vi.waitFor(() => expect(renderer.pending).toHaveLength(2));
+		renderer.pending[1].resolve(SOUP);
+		expect((await other).status).toBe(200);
+	});
+
+	it('releases the concurrency slot when the client disconnects', async () => {
+		const renderer = fakeRenderer();
+		const port = await listen(renderer);
+
+		const { req, reply } = send(port, 'POST', '/render', bearer(ALICE));
+		reply.catch(() => undefined);
+		await vi.waitFor(() => expect(renderer.pending).toHaveLength(1));
+		const limited = await send(port, 'POST', '/render', bearer(ALICE)).reply;
+		expect(limited.status).toBe(429);
+		expect(limited.headers['retry-after']).toBe('1');
+		expect(limited.headers['x-concurrency-remaining']).toBe('0');
+
+		req.destroy();
+		await vi.waitFor(() => expect(renderer.render.mock.calls[0][1].signal?.aborted).toBe(true));
+		const next = send(port, 'POST', '/render', bearer(ALICE)).reply;
+		await vi.waitFor(() => expect(renderer.pending).toHaveLength(2));
+		renderer.pending[1].resolve(SOUP);
+		expect((await next).status).toBe(200);
+	});
+
+	it('releases the concurrency slot when the render fails', async () => {
+		const renderer = fakeRenderer();
+		const port = await listen(renderer);
+
+		const failed = send(port, 'POST', '/render', bearer(ALICE)).reply;
+		await vi.waitFor(() => expect(renderer.pending).toHaveLength(1));
+		renderer.pending[0].reject(new RenderError('TARGET_HTTP_ERROR', 'HTTP 500', 500));
+		expect((await failed).status).toBe(502);
+
+		const next = send(port, 'POST', '/render', bearer(ALICE)).reply;
+		await vi.waitFor(() => expect(renderer.pending).toHaveLength(2));
+		renderer.pending[1].resolve(SOUP);
+		expect((await next).status).toBe(200);
+	});
+
+	it('keeps the slot of a job until it finishes, and only shows the job to its owner', async () => {
+		const renderer = fakeRenderer();
+		const port = await listen(renderer);
+
+		const submitted = await send(port, 'POST', '/render/jobs', bearer(ALICE)).reply;
+		expect(submitted.status).toBe(202);
+		const path = `/render/jobs/${submitted.body.id as string}`;
+		await vi.waitFor(() => expect(renderer.pending).toHaveLength(1));
+		// The response is done, but the job still renders
+		expect((await send(port, 'POST', '/render', bearer(ALICE)).reply).status).toBe(429);
+
+		expect((await send(port, 'GET', path, bearer(BOB)).reply).status).toBe(404);
+		expect((await send(port, 'DELETE', path, bearer(BOB)).reply).status).toBe(404);
+		expect((await send(port, 'GET', path, bearer(ALICE)).reply).body).toMatchObject({ status: 'running' });
+
+		const cancelled = await send(port, 'DELETE', path, bearer(ALICE)).reply;
+		expect(cancelled.body).toMatchObject({ status: 'cancelled' });
+		const next = send(port, 'POST', '/render', bearer(ALICE)).reply;
+		await vi.waitFor(() => expect(renderer.pending).toHaveLength(2));
+		renderer.pending[1].resolve(SOUP);
+		expect((await next).status).toBe(200);
+	});
+});
@@ -0,0 +1,165 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import type { Request, RequestHandler, Response } from 'express';
+import type { ApiKeyConfig, AuthConfig } from 'app/model.js';
+import type { RenderRequest } from 'app/render/model.js';
+import { RenderError, toRenderErrorResponse } from 'app/render/renderErrors.js';
+import type { ClientLimits, ClientQuotas, QuotaLease, QuotaState } from 'app/util/ClientQuotas.js';
+import { PRIORITIES } from 'app/util/Semaphore.js';
+import type { Priority } from 'app/util/Semaphore.js';
+import { runWithLogContext } from 'app/util/Logger.js';
+import { parseWithSchema } from 'app/validation/schema.js';
+import type { Schema } from 'app/validation/schema.js';
+
+/** The authenticated caller of a request. */
+export interface ApiClient {
+	/** Identifies the key in logs; never the key itself. */
+	id: string;
+	limits: ClientLimits;
+	/** Default priority of the renders of the client. */
+	priority?: Priority;
+}
+
+/** Identifies the client of a request, or returns undefined if the request carries no valid credentials. */
+export type Authenticator = (req: Request) => ApiClient | undefined;
+
+/**
+ * Authenticate with the static API keys of the configuration, given as `Authorization: Bearer <key>` or in the
+ * `X-API-Key` header.
+ */
+export function staticApiKeyAuthenticator(config: AuthConfig): Authenticator {
+	const keys = config.apiKeys.map((apiKey) => ({
+		digest: digest(apiKey.key),
+		client: { id: apiKey.id, limits: { ...config.defaultLimits, ...apiKey.limits }, priority: apiKey.priority },
+	}));
+	return (req) => {
+		const given = readApiKey(req);
+		if (!given) return undefined;
+		// Compare digests of equal length in constant time, against every key
+		const givenDigest = digest(given);
+		let client: ApiClient | undefined;
+		for (const key of keys) {
+			if (timingSafeEqual(givenDigest, key.digest)) client = key.client;
+		}
+		return client;
+	};
+}
+
+/**
+ * Reject requests without valid credentials with 401, and add the key id of the others to the log context.
+ * Without an authenticator every request passes.
+ */
+export function authenticate(authenticator: Authenticator | undefined): RequestHandler {
+	return (req, res, next) => {
+		if (!authenticator) {
+			next();
+			return;
+		}
+		const client = authenticator(req);
+		if (!client) {
+			const { status, body } = toRenderErrorResponse(
+				new RenderError('UNAUTHORIZED', 'Missing or invalid API key'),
+			);
+			res.status(status).set('WWW-Authenticate', 'Bearer').json(body);
+			return;
+		}
+		res.locals.apiClient = client;
+		runWithLogContext({ apiKeyId: client.id }, next);
+	};
+}
+
+/**
+ * Apply the rate limit and concurrency quota of the authenticated client, rejecting requests over them with 429 and
+ * `Retry-After`. The limits are reported in `RateLimit-*` and `X-Concurrency-*` headers. The concurrency slot is
+ * released when the response is done, unless the route takes the lease with `detachQuotaLease()`.
+ */
+export function enforceClientQuotas(quotas: ClientQuotas): RequestHandler {
+	return (_req, res, next) => {
+		const client = res.locals.apiClient as ApiClient | undefined;
+		if (!client) {
+			next();
+			return;
+		}
+		const decision = quotas.tryAcquire(client.id, client.limits);
+		setQuotaHeaders(res, decision.state);
+		if (!decision.allowed) {
+			const message =
+				decision.reason === 'rate'
+					? `Rate limit of ${client.limits.requestsPerMinute} requests per minute exceeded`
+					: `Limit of ${client.limits.maxConcurrent} concurrent requests exceeded`;
+			const { status, body } = toRenderErrorResponse(new RenderError('RATE_LIMITED', message));
+			res.status(status).set('Retry-After', String(decision.retryAfterSeconds)).json(body);
+			return;
+		}
+		res.locals.quotaLease = decision.lease;
+		res.on('close', () => (res.locals.quotaLease as QuotaLease | undefined)?.release());
+		next();
+	};
+}
+
+/** Id of the authenticated client, if authentication is enabled. */
+export function clientIdOf(res: Response): string | undefined {
+	return (res.locals.apiClient as ApiClient | undefined)?.id;
+}
+
+/** The render request with the defaults of the authenticated client filled in. */
+export function withClientDefaults(renderRequest: RenderRequest, res: Response): RenderRequest {
+	const client = res.locals.apiClient as ApiClient | undefined;
+	if (!client?.priority || renderRequest.priority) return renderRequest;
+	return { ...renderRequest, priority: client.priority };
+}
+
+/**
+ * Take over the concurrency slot of the request, for work that outlives the response; the caller must release it.
+ */
+export function detachQuotaLease(res: Response): QuotaLease | undefined {
+	const lease = res.locals.quotaLease as QuotaLease | undefined;
+	res.locals.quotaLease = undefined;
+	return lease;
+}
+
+const apiKeysFileSchema: Schema = {
+	type: 'array',
+	items: {
+		type: 'object',
+		properties: {
+			id: { type: 'string', minLength: 1, maxLength: 100, required: true },
+			key: { type: 'string', minLength: 16, maxLength: 500, required: true },
+			limits: {
+				type: 'object',
+				properties: {
+					requestsPerMinute: { type: 'integer', min: 1 },
+					maxConcurrent: { type: 'integer', min: 1 },
+				},
+			},
+			priority: { type: 'enum', values: PRIORITIES },
+		},
+	},
+};
+
+/** Read the API keys from a JSON file holding an array of `{ id, key, limits? }`. */
+export function readApiKeysFile(path: string): ApiKeyConfig[] {
+	const keys = parseWithSchema<ApiKeyConfig[]>(JSON.parse(readFileSync(path, 'utf8')), apiKeysFileSchema);
+	const ids = new Set(keys.map((key) => key.id));
+	if (ids.size !== keys.length) throw new Error(`Duplicate API key ids in ${path}`);
+	return keys;
+}
+
+function setQuotaHeaders(res: Response, state: QuotaState) {
+	res.set({
+		'RateLimit-Limit': String(state.limit),
+		'RateLimit-Remaining': String(state.remaining),
+		'RateLimit-Reset': String(state.resetSeconds),
+		'X-Concurrency-Limit': String(state.concurrencyLimit),
+		'X-Concurrency-Remaining': String(state.concurrencyRemaining),
+	});
+}
+
+function readApiKey(req: Request): string | undefined {
+	const match = /^Bearer\s+(.+)$/i.exec(req.get('authorization') ?? '');
+	return match?.[1] ?? req.get('x-api-key') ?? undefined;
+}
+
+function digest(key: string): Buffer {
+	return createHash('sha256').update(key).digest();
+}
@@ -0,0 +1,77 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import express from 'express';
+import type { BrowserPool } from 'app/util/BrowserPool.js';
+import type { Semaphore } from 'app/util/Semaphore.js';
+import { checkReadiness, healthRouter, ReadinessSources } from 'app/routes/health.js';
+
+let server: http.Server | undefined;
+
+function sources({ alive = 2, replacing = 0, queued = 0 } = {}): ReadinessSources {
+	return {
+		browserPool: { poolSize: 2, aliveCount: alive, replacingCount: replacing } as BrowserPool,
+		semaphore: { activeCount: 4, queueLength: queued } as Semaphore,
+		config: { maxQueueLength: 10 },
+		coalescedCount: () => 3,
+	};
+}
+
+async function getReady(readinessSources: ReadinessSources): Promise<{ status: number; body: unknown }> {
+	const app = express();
+	app.use(healthRouter(readinessSources));
+	server = http.createServer(app);
+	await new Promise<void>((resolve) => server!.listen(0, '127.0.0.1', resolve));
+	const response = await fetch(`http://127.0.0.1:${(server.address() as AddressInfo).port}/ready`);
+	return { status: response.status, body: await response.json() };
+}
+
+describe('checkReadiness', () => {
+	it('is ready with alive browsers and room in the queue', () => {
+		expect(checkReadiness(sources({ queued: 9 }))).toEqual({
+			ready: true,
+			browsers: { size: 2, alive: 2, replacing: 0 },
+			jobs: { active: 4, queued: 9, maxQueued: 10, coalesced: 3 },
+		});
+	});
+
+	it('is not ready without alive browsers, including while all of them are being replaced', () => {
+		expect(checkReadiness(sources({ alive: 0 }))).toMatchObject({ ready: false, reasons: ['No alive browsers'] });
+		expect(checkReadiness(sources({ alive: 0, replacing: 2 }))).toMatchObject({
+			ready: false,
+			reasons: ['No alive browsers'],
+			browsers: { alive: 0, replacing: 2 },
+		});
+		// A browser that is being replaced while another is alive does not stop the service
+		expect(checkReadiness(sources({ alive: 1, replacing: 1 }))).toMatchObject({ ready: true });
+	});
+
+	it('is not ready once the queue is full, and reports every reason', () => {
+		expect(checkReadiness(sources({ queued: 10 }))).toMatchObject({
+			ready: false,
+			reasons: ['10 renders waiting for a slot'],
+		});
+		expect(checkReadiness(sources({ alive: 0, queued: 12 }))).toMatchObject({
+			ready: false,
+			reasons: ['No alive browsers', '12 renders waiting for a slot'],
+		});
+	});
+});
+
+describe('GET /ready', () => {
+	afterEach(async () => {
+		await new Promise((resolve) => server?.close(resolve));
+		server = undefined;
+	});
+
+	it('responds with 200 when ready', async () => {
+		await expect(getReady(sources())).resolves.toMatchObject({ status: 200, body: { ready: true } });
+	});
+
+	it('responds with 503 and the reasons when not ready', async () => {
+		await expect(getReady(sources({ alive: 0, replacing: 2 }))).resolves.toMatchObject({
+			status: 503,
+			body: { ready: false, reasons: ['No alive browsers'], browsers: { replacing: 2 } },
+		});
+	});
+});
@@ -1,12 +1,59 @@
 import type { Router } from 'express';
 import { Router as createRouter } from 'express';
+import type { ReadinessConfig } from 'app/model.js';
+import type { BrowserPool } from 'app/util/BrowserPool.js';
+import type { Semaphore } from 'app/util/Semaphore.js';
 
-export function healthRouter(): Router {
+export interface ReadinessSources {
+	browserPool: BrowserPool;
+	semaphore: Semaphore;
+	config: ReadinessConfig;
+	/** Number of render requests merged into a render already in flight since the start. */
+	coalescedCount: () => number;
+}
+
+export interface ReadinessReport {
+	ready: boolean;
+	/** Why the service is not ready; absent when ready. */
+	reasons?: string[];
+	browsers: { size: number; alive: number; replacing: number };
+	jobs: { active: number; queued: number; maxQueued: number; coalesced: number };
+}
+
+/**
+ * `/health` reports liveness: the process serves requests. `/ready` reports whether it can take more renders, and
+ * responds with 503 when it cannot, so that load balancers route around the replica.
+ */
+export function healthRouter(sources: ReadinessSources): Router {
 	const router = createRouter();
 
 	router.get('/health', (_req, res) => {
 		res.status(200).json({ ok: true });
 	});
 
+	router.get('/ready', (_req, res) => {
+		const report = checkReadiness(sources);
+		res.status(report.ready ? 200 : 503).json(report);
+	});
+
 	return router;
 }
+
+export function checkReadiness({ browserPool, semaphore, config, coalescedCount }: ReadinessSources): ReadinessReport {
+	const browsers = {
+		size: browserPool.poolSize,
+		alive: browserPool.aliveCount,
+		replacing: browserPool.replacingCount,
+	};
+	const jobs = {
+		active: semaphore.activeCount,
+		queued: semaphore.queueLength,
+		maxQueued: config.maxQueueLength,
+		coalesced: coalescedCount(),
+	};
+
+	const reasons: string[] = [];
+	if (browsers.alive === 0) reasons.push('No alive browsers');
+	if (jobs.queued >= jobs.maxQueued) reasons.push(`${jobs.queued} renders waiting for a slot`);
+	return reasons.length > 0 ? { ready: false, reasons, browsers, jobs } : { ready: true, browsers, jobs };
+}
@@ -0,0 +1,13 @@
+import type { Router } from 'express';
+import { Router as createRouter } from 'express';
+import type { MetricsRegistry } from 'app/util/Metrics.js';
+
+export function metricsRouter(registry: MetricsRegistry): Router {
+	const router = createRouter();
+
+	router.get('/metrics', (_req, res) => {
+		res.type('text/plain; version=0.0.4').send(registry.serialize());
+	});
+
+	return router;
+}
@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import express from 'express';
+import type { RenderHooks, Renderer } from 'app/render/Renderer.js';
+import { renderRouter } from 'app/routes/render.js';
+
+let server: http.Server | undefined;
+
+async function listen(renderer: Pick<Renderer, 'render'>): Promise<number> {
+	const app = express();
+	app.use(express.json());
+	app.use(renderRouter(renderer as Renderer, { maxQueueWaitMs: 1000 }));
+	server = http.createServer(app);
+	await new Promise<void>((resolve) => server!.listen(0, '127.0.0.1', resolve));
+	return (server.address() as AddressInfo).port;
+}
+
+function post(port: number, body: unknown): http.ClientRequest {
+	const req = http.request({
+		port,
+		method: 'POST',
+		path: '/render',
+		headers: { 'Content-Type': 'application/json' },
+	});
+	req.on('error', () => undefined);
+	req.end(JSON.stringify(body));
+	return req;
+}
+
+describe('POST /render', () => {
+	afterEach(async () => {
+		await new Promise((resolve) => server?.close(resolve));
+		server = undefined;
+	});
+
+	it('aborts the render when the client disconnects', async () => {
+		let hooks: RenderHooks | undefined;
+		const renderer = {
+			render: vi.fn((_request, renderHooks: RenderHooks) => {
+				hooks = renderHooks;
+				return new Promise<never>((_resolve, reject) => {
+					renderHooks.signal?.addEventListener('abort', () => reject(renderHooks.signal?.reason));
+				});
+			}),
+		};
+		const port = await listen(renderer);
+
+		const req = post(port, { url: 'https://example.com/soup' });
+		await vi.waitFor(() => expect(renderer.render).toHaveBeenCalled());
+		expect(hooks?.maxQueueWaitMs).toBe(1000);
+		expect(hooks?.signal?.aborted).toBe(false);
+		req.destroy();
+
+		await vi.waitFor(() => expect(hooks?.signal?.aborted).toBe(true));
+		expect(hooks?.signal?.reason).toMatchObject({ code: 'CANCELLED' });
+	});
+
+	it('does not abort a render whose response was sent', async () => {
+		let signal: AbortSignal | undefined;
+		const renderer = {
+			render: vi.fn(async (_request, hooks: RenderHooks) => {
+				signal = hooks.signal;
+				return { output: 'soup', finalUrl: 'https://example.com/soup' };
+			}),
+		};
+		const port = await listen(renderer);
+
+		const status = await new Promise<number | undefined>((resolve) => {
+			post(port, { url: 'https://example.com/soup' }).on('response', (res) => {
+				res.resume();
+				res.on('end', () => resolve(res.statusCode));
+			});
+		});
+
+		expect(status).toBe(200);
+		expect(signal?.aborted).toBe(false);
+	});
+});
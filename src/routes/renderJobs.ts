@@ -0,0 +1,54 @@
+import type { Response, Router } from 'express';
+import { Router as createRouter } from 'express';
+import { RenderJobStore, RenderJobStoreFullError } from 'app/render/RenderJobStore.js';
+import { RenderError, toRenderErrorResponse } from 'app/render/renderErrors.js';
+import { parseRenderRequest } from 'app/routes/render.js';
+import { clientIdOf, detachQuotaLease, withClientDefaults } from 'app/routes/auth.js';
+
+export function renderJobsRouter(jobStore: RenderJobStore): Router {
+	const router = createRouter();
+
+	router.post('/render/jobs', (req, res) => {
+		// The job holds the concurrency slot of the client until it finishes, not just until the response
+		const lease = detachQuotaLease(res);
+		try {
+			const job = jobStore.submit(withClientDefaults(parseRenderRequest(req.body), res), {
+				ownerId: clientIdOf(res),
+				onFinished: () => lease?.release(),
+			});
+			res.status(202).location(`${req.baseUrl}/render/jobs/${job.id}`).json(job);
+		} catch (err) {
+			lease?.release();
+			const { status, retryAfterSeconds, body } = toRenderErrorResponse(
+				err instanceof RenderJobStoreFullError ? new RenderError('CAPACITY_EXCEEDED', err.message) : err,
+			);
+			if (retryAfterSeconds !== undefined) res.set('Retry-After', String(retryAfterSeconds));
+			res.status(status).json(body);
+		}
+	});
+
+	router.get('/render/jobs/:id', (req, res) => {
+		const job = jobStore.get(req.params.id, clientIdOf(res));
+		if (!job) {
+			sendUnknownJob(res);
+			return;
+		}
+		res.json(job);
+	});
+
+	router.delete('/render/jobs/:id', (req, res) => {
+		const job = jobStore.cancel(req.params.id, clientIdOf(res));
+		if (!job) {
+			sendUnknownJob(res);
+			return;
+		}
+		res.json(job);
+	});
+
+	return router;
+}
+
+function sendUnknownJob(res: Response) {
+	const { status, body } = toRenderErrorResponse(new RenderError('NOT_FOUND', 'Unknown job'));
+	res.status(status).json(body);
+}
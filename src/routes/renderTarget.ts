@@ -10,8 +10,18 @@ type LookupResult = {
 
 export type HostLookup = (hostname: string, options: { all: true; verbatim: true }) => Promise<LookupResult[]>;
 
+/**
+ * - `invalid`: the URL is malformed or of an unsupported kind
+ * - `blocked`: the URL points to a destination we refuse to contact
+ * - `unresolvable`: the hostname could not be resolved
+ */
+export type InvalidRenderTargetReason = 'invalid' | 'blocked' | 'unresolvable';
+
 export class InvalidRenderTargetError extends Error {
-	constructor(message: string) {
+	constructor(
+		message: string,
+		readonly reason: InvalidRenderTargetReason = 'invalid',
+	) {
 		super(message);
 		this.name = 'InvalidRenderTargetError';
 	}
@@ -54,7 +64,7 @@ export async function validateBrowserRequestUrl(
 		return candidate;
 	}
 
-	throw new InvalidRenderTargetError(`Blocked URL protocol: ${parsed.protocol}`);
+	throw new InvalidRenderTargetError(`Blocked URL protocol: ${parsed.protocol}`, 'blocked');
 }
 
 export async function validateRenderTarget(
@@ -96,12 +106,12 @@ export async function validateRemoteRenderUrl(rawUrl: string, lookupImpl: HostLo
 		throw new InvalidRenderTargetError('URLs with embedded credentials are not allowed');
 	}
 	if (isBlockedHostname(parsed.hostname)) {
-		throw new InvalidRenderTargetError(`Blocked hostname: ${parsed.hostname}`);
+		throw new InvalidRenderTargetError(`Blocked hostname: ${parsed.hostname}`, 'blocked');
 	}
 
 	const addresses = await resolveHostname(parsed.hostname, lookupImpl);
 	if (addresses.some((address) => isBlockedIpAddress(address))) {
-		throw new InvalidRenderTargetError(`Blocked destination: ${parsed.hostname}`);
+		throw new InvalidRenderTargetError(`Blocked destination: ${parsed.hostname}`, 'blocked');
 	}
 
 	return parsed.toString();
@@ -117,7 +127,7 @@ async function resolveHostname(hostname: string, lookupImpl: HostLookup): Promis
 		return results.map((result) => result.address);
 	} catch (err) {
 		const message = err instanceof Error ? err.message : String(err);
-		throw new InvalidRenderTargetError(`Could not resolve hostname: ${message}`);
+		throw new InvalidRenderTargetError(`Could not resolve hostname: ${message}`, 'unresolvable');
 	}
 }
 
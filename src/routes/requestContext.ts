@@ -0,0 +1,36 @@
+import { randomUUID } from 'node:crypto';
+import type { RequestHandler } from 'express';
+import { logger, runWithLogContext } from 'app/util/Logger.js';
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+const REQUEST_ID_RE = /^[\w.:-]{1,128}$/;
+
+/**
+ * Give every request a correlation id, taken from the `X-Request-Id` header if it is sensible or generated otherwise,
+ * echo it in the response and add it to every line logged while handling the request.
+ */
+export function requestContext(): RequestHandler {
+	return (req, res, next) => {
+		const header = req.get(REQUEST_ID_HEADER);
+		const requestId = header && REQUEST_ID_RE.test(header) ? header : randomUUID();
+		res.locals.requestId = requestId;
+		res.setHeader(REQUEST_ID_HEADER, requestId);
+
+		runWithLogContext({ requestId }, () => {
+			const start = Date.now();
+			res.on('finish', () => {
+				// Listeners run in the context of the emitter, so pass the id explicitly
+				logger.info('Request completed', {
+					requestId,
+					method: req.method,
+					path: req.path,
+					status: res.statusCode,
+					durationMs: Date.now() - start,
+					apiKeyId: res.locals.apiClient?.id,
+				});
+			});
+			next();
+		});
+	};
+}
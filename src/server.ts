@@ -1,17 +1,63 @@
 import { BrowserPool } from 'app/util/BrowserPool.js';
 import { Semaphore } from 'app/util/Semaphore.js';
 import { createApp } from 'app/app.js';
+import { parseResourceTypes } from 'app/render/resourcePolicy.js';
+import { isArtifactCaptureMode } from 'app/render/ArtifactStore.js';
+import { isLogLevel, logger } from 'app/util/Logger.js';
+import { readApiKeysFile } from 'app/routes/auth.js';
 
 const port = Number(process.env.PORT ?? 3000);
 const browserCount = Number(process.env.BROWSER_COUNT ?? 2); // Chromium processes
 const maxConcurrentJobs = Number(process.env.MAX_CONCURRENT_JOBS ?? 4); // Pages total
 const HARD_TIMEOUT_MS = 20000;
+const maxRequestBodyBytes = Number(process.env.MAX_REQUEST_BODY_BYTES ?? 16 * 1024);
+const maxJobs = Number(process.env.MAX_JOBS ?? 1000); // Render jobs kept in memory
+const jobResultTtlMs = Number(process.env.JOB_RESULT_TTL_MS ?? 10 * 60 * 1000);
+const cacheTtlMs = Number(process.env.CACHE_TTL_MS ?? 60 * 60 * 1000);
+const cacheMaxEntries = Number(process.env.CACHE_MAX_ENTRIES ?? 500); // 0 disables the cache
+const cacheDir = process.env.CACHE_DIR || undefined; // Keep the cache on disk instead of memory
+const blockResourceTypes = parseResourceTypes(process.env.BLOCK_RESOURCE_TYPES ?? ''); // e.g. image,media,font
+const blockTrackers = process.env.BLOCK_TRACKERS !== 'false';
+const artifactsCapture = process.env.ARTIFACTS_CAPTURE ?? 'on-failure'; // off, on-failure, always
+const queueMaxLength = Number(process.env.QUEUE_MAX_LENGTH ?? maxConcurrentJobs * 10);
+const queueMaxWaitMs = Number(process.env.QUEUE_MAX_WAIT_MS ?? 30000);
+const readyMaxQueueLength = Number(process.env.READY_MAX_QUEUE_LENGTH ?? queueMaxLength);
+const apiKeysFile = process.env.API_KEYS_FILE || undefined; // Authentication is disabled without it
+const apiKeyRequestsPerMinute = Number(process.env.API_KEY_REQUESTS_PER_MINUTE ?? 60);
+const apiKeyMaxConcurrent = Number(process.env.API_KEY_MAX_CONCURRENT ?? maxConcurrentJobs);
+const logLevel = process.env.LOG_LEVEL ?? 'info'; // debug, info, warn or error
+
+if (!isLogLevel(logLevel)) throw new Error(`Invalid LOG_LEVEL: ${logLevel}`);
+logger.level = logLevel;
+if (!isArtifactCaptureMode(artifactsCapture)) throw new Error(`Invalid ARTIFACTS_CAPTURE: ${artifactsCapture}`);
 
 const browserPool = new BrowserPool(browserCount);
-const semaphore = new Semaphore(maxConcurrentJobs);
+const semaphore = new Semaphore(maxConcurrentJobs, { maxQueueLength: queueMaxLength });
 await browserPool.init();
 
-const app = createApp(browserPool, semaphore, { hardTimeoutMs: HARD_TIMEOUT_MS });
+const app = createApp(browserPool, semaphore, {
+	hardTimeoutMs: HARD_TIMEOUT_MS,
+	maxRequestBodyBytes,
+	jobs: { maxJobs, resultTtlMs: jobResultTtlMs },
+	cache: { ttlMs: cacheTtlMs, maxEntries: cacheMaxEntries, dir: cacheDir },
+	resourcePolicy: { blockTypes: blockResourceTypes, blockTrackers },
+	artifacts: {
+		dir: process.env.ARTIFACTS_DIR ?? '/tmp/dietwise-renderer',
+		capture: artifactsCapture,
+		har: process.env.ARTIFACTS_HAR !== 'false',
+		screenshot: process.env.ARTIFACTS_SCREENSHOT !== 'false',
+		trace: process.env.ARTIFACTS_TRACE === 'true',
+		maxAgeMs: Number(process.env.ARTIFACTS_MAX_AGE_MS ?? 24 * 60 * 60 * 1000),
+		maxTotalBytes: Number(process.env.ARTIFACTS_MAX_TOTAL_BYTES ?? 500 * 1024 * 1024),
+		accessToken: process.env.ARTIFACTS_TOKEN || undefined, // The download endpoint is disabled without it
+	},
+	queue: { maxWaitMs: queueMaxWaitMs },
+	readiness: { maxQueueLength: readyMaxQueueLength },
+	auth: {
+		apiKeys: apiKeysFile ? readApiKeysFile(apiKeysFile) : [],
+		defaultLimits: { requestsPerMinute: apiKeyRequestsPerMinute, maxConcurrent: apiKeyMaxConcurrent },
+	},
+});
 
 process.on('SIGTERM', async () => {
 	await browserPool.shutdown();
@@ -19,5 +65,5 @@ process.on('SIGTERM', async () => {
 });
 
 app.listen(port, () => {
-	console.log(`Server listening on http://localhost:${port}`);
+	logger.info(`Server listening on http://localhost:${port}`);
 });
@@ -1,4 +1,5 @@
 import { chromium, Browser } from 'playwright';
+import { logger } from 'app/util/Logger.js';
 
 type PooledBrowser = {
 	browser: Browser;
@@ -8,6 +9,8 @@ type PooledBrowser = {
 export class BrowserPool {
 	private browsers: PooledBrowser[] = [];
 	private index = 0;
+	private replacements = 0;
+	private replacing = 0;
 
 	constructor(private size: number) {}
 
@@ -33,18 +36,46 @@ export class BrowserPool {
 		throw new Error('No alive browsers available');
 	}
 
+	/** Number of browsers in the pool, alive or not. */
+	get poolSize(): number {
+		return this.browsers.length;
+	}
+
+	get aliveCount(): number {
+		return this.browsers.filter((b) => b.alive).length;
+	}
+
+	/** Number of browsers replaced since startup, after a crash or a hard timeout. */
+	get replacementCount(): number {
+		return this.replacements;
+	}
+
+	/** Number of replacement browsers being launched. */
+	get replacingCount(): number {
+		return this.replacing;
+	}
+
 	async replace(dead: Browser) {
 		const index = this.browsers.findIndex((b) => b.browser === dead);
 		if (index === -1) return;
-		const entry: PooledBrowser = await this.launch();
-		this.browsers[index] = entry;
+		await this.replaceAt(index);
 	}
 
 	private async replacePooledBrowser(dead: PooledBrowser) {
 		const index = this.browsers.indexOf(dead);
 		if (index === -1) return;
-		const entry: PooledBrowser = await this.launch();
-		this.browsers[index] = entry;
+		await this.replaceAt(index);
+	}
+
+	private async replaceAt(index: number) {
+		this.replacements++;
+		this.replacing++;
+		try {
+			const entry: PooledBrowser = await this.launch();
+			this.browsers[index] = entry;
+		} finally {
+			this.replacing--;
+		}
 	}
 
 	private async launch(): Promise<PooledBrowser> {
@@ -57,7 +88,7 @@ export class BrowserPool {
 			if (!entry.alive) return;
 
 			entry.alive = false;
-			console.error('Browser disconnected, replacing...');
+			logger.error('Browser disconnected, replacing...');
 
 			try {
 				await browser.close();
@@ -73,7 +104,7 @@ export class BrowserPool {
 	async shutdown() {
 		await Promise.all(
 			this.browsers.map((b, index) =>
-				b.browser.close().catch((e) => console.error(`Error closing browser ${index}`, e)),
+				b.browser.close().catch((e) => logger.error('Error closing browser', { index, err: e })),
 			),
 		);
 	}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { ClientQuotas } from 'app/util/ClientQuotas.js';
+
+const limits = { requestsPerMinute: 3, maxConcurrent: 2 };
+
+describe('ClientQuotas', () => {
+	it('rejects requests over the rate limit until the window ends', () => {
+		let now = 0;
+		const quotas = new ClientQuotas(() => now);
+		for (let i = 0; i < 3; i++) {
+			const decision = quotas.tryAcquire('a', limits);
+			expect(decision.allowed).toBe(true);
+			if (decision.allowed) decision.lease.release();
+		}
+
+		now = 45_000;
+		const rejected = quotas.tryAcquire('a', limits);
+		expect(rejected).toMatchObject({ allowed: false, reason: 'rate', retryAfterSeconds: 15 });
+		expect(rejected.state).toMatchObject({ limit: 3, remaining: 0, resetSeconds: 15 });
+		expect(quotas.tryAcquire('b', limits).allowed).toBe(true);
+
+		now = 60_000;
+		expect(quotas.tryAcquire('a', limits)).toMatchObject({ allowed: true, state: { remaining: 2 } });
+	});
+
+	it('limits the requests in flight and frees a slot once released', () => {
+		const quotas = new ClientQuotas(() => 0);
+		const first = quotas.tryAcquire('a', limits);
+		const second = quotas.tryAcquire('a', limits);
+		expect(second).toMatchObject({ allowed: true, state: { concurrencyLimit: 2, concurrencyRemaining: 0 } });
+
+		const rejected = quotas.tryAcquire('a', limits);
+		expect(rejected).toMatchObject({ allowed: false, reason: 'concurrency', retryAfterSeconds: 1 });
+		expect(rejected.state.remaining).toBe(1);
+
+		if (first.allowed) {
+			first.lease.release();
+			first.lease.release();
+		}
+		expect(quotas.tryAcquire('a', limits)).toMatchObject({ allowed: true, state: { concurrencyRemaining: 0 } });
+	});
+});
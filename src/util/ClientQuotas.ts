@@ -0,0 +1,96 @@
+export interface ClientLimits {
+	/** Requests accepted per minute, in fixed one-minute windows. */
+	requestsPerMinute: number;
+	/** Requests of the client in flight at once, on top of the global semaphore. */
+	maxConcurrent: number;
+}
+
+/** The state of the quotas of a client, as reported in the response headers. */
+export interface QuotaState {
+	limit: number;
+	remaining: number;
+	/** Seconds until the current rate limit window ends. */
+	resetSeconds: number;
+	concurrencyLimit: number;
+	concurrencyRemaining: number;
+}
+
+export interface QuotaLease {
+	/** Give back the concurrency slot; calling it again has no effect. */
+	release(): void;
+}
+
+export type QuotaDecision =
+	| { allowed: true; lease: QuotaLease; state: QuotaState }
+	| { allowed: false; reason: 'rate' | 'concurrency'; retryAfterSeconds: number; state: QuotaState };
+
+const WINDOW_MS = 60 * 1000;
+/** Nothing tells when a render of the client finishes, so suggest a short wait. */
+const CONCURRENCY_RETRY_AFTER_SECONDS = 1;
+
+interface ClientUsage {
+	windowStart: number;
+	requests: number;
+	inFlight: number;
+}
+
+/**
+ * Per-client rate limits and concurrency quotas. A request that is over either limit is rejected without counting
+ * against the rate limit. Clients are the configured API keys, so their usage is kept for the life of the process.
+ */
+export class ClientQuotas {
+	private usage = new Map<string, ClientUsage>();
+
+	constructor(private readonly now: () => number = Date.now) {}
+
+	tryAcquire(clientId: string, limits: ClientLimits): QuotaDecision {
+		const usage = this.currentUsage(clientId);
+		if (usage.requests >= limits.requestsPerMinute) {
+			const state = this.state(usage, limits);
+			return { allowed: false, reason: 'rate', retryAfterSeconds: Math.max(state.resetSeconds, 1), state };
+		}
+		if (usage.inFlight >= limits.maxConcurrent) {
+			return {
+				allowed: false,
+				reason: 'concurrency',
+				retryAfterSeconds: CONCURRENCY_RETRY_AFTER_SECONDS,
+				state: this.state(usage, limits),
+			};
+		}
+
+		usage.requests++;
+		usage.inFlight++;
+		let released = false;
+		const lease: QuotaLease = {
+			release: () => {
+				if (released) return;
+				released = true;
+				usage.inFlight--;
+			},
+		};
+		return { allowed: true, lease, state: this.state(usage, limits) };
+	}
+
+	private currentUsage(clientId: string): ClientUsage {
+		const now = this.now();
+		let usage = this.usage.get(clientId);
+		if (!usage) {
+			usage = { windowStart: now, requests: 0, inFlight: 0 };
+			this.usage.set(clientId, usage);
+		} else if (now - usage.windowStart >= WINDOW_MS) {
+			usage.windowStart = now;
+			usage.requests = 0;
+		}
+		return usage;
+	}
+
+	private state(usage: ClientUsage, limits: ClientLimits): QuotaState {
+		return {
+			limit: limits.requestsPerMinute,
+			remaining: Math.max(limits.requestsPerMinute - usage.requests, 0),
+			resetSeconds: Math.ceil((usage.windowStart + WINDOW_MS - this.now()) / 1000),
+			concurrencyLimit: limits.maxConcurrent,
+			concurrencyRemaining: Math.max(limits.maxConcurrent - usage.inFlight, 0),
+		};
+	}
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { Logger, runWithLogContext } from 'app/util/Logger.js';
+
+function createLogger(level: 'debug' | 'info' | 'warn' | 'error' = 'info') {
+	const lines: Record<string, unknown>[] = [];
+	const logger = new Logger({ level, write: (line) => lines.push(JSON.parse(line)) });
+	return { logger, lines };
+}
+
+describe('Logger', () => {
+	it('writes JSON lines at or above the configured level', () => {
+		const { logger, lines } = createLogger('warn');
+		logger.info('ignored');
+		logger.warn('kept', { url: 'https://example.com/' });
+
+		expect(lines).toEqual([{ time: expect.any(String), level: 'warn', msg: 'kept', url: 'https://example.com/' }]);
+	});
+
+	it('adds the fields of child loggers and of the log context', async () => {
+		const { logger, lines } = createLogger();
+		await runWithLogContext({ requestId: 'abc' }, async () => {
+			await Promise.resolve();
+			logger.child({ jobId: '1' }).info('done');
+		});
+		logger.info('outside');
+
+		expect(lines.map(({ msg, requestId, jobId }) => ({ msg, requestId, jobId }))).toEqual([
+			{ msg: 'done', requestId: 'abc', jobId: '1' },
+			{ msg: 'outside', requestId: undefined, jobId: undefined },
+		]);
+	});
+
+	it('serializes errors', () => {
+		const { logger, lines } = createLogger();
+		logger.error('failed', { err: new TypeError('boom') });
+
+		expect(lines[0].err).toMatchObject({ name: 'TypeError', message: 'boom', stack: expect.any(String) });
+	});
+});
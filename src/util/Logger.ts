@@ -0,0 +1,90 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export type LogFields = Record<string, unknown>;
+
+export type LogWriter = (line: string) => void;
+
+const context = new AsyncLocalStorage<LogFields>();
+
+/**
+ * Writes one JSON object per line. Besides the fields given to a call, each line carries the fields of the logger
+ * (see `child()`) and those of the current log context (see `runWithLogContext()`), such as the request id.
+ */
+export class Logger {
+	constructor(
+		private readonly options: { level: LogLevel; write: LogWriter },
+		private readonly fields: LogFields = {},
+	) {}
+
+	get level(): LogLevel {
+		return this.options.level;
+	}
+
+	set level(level: LogLevel) {
+		this.options.level = level;
+	}
+
+	/** A logger adding the given fields to every line; it shares the level of this logger. */
+	child(fields: LogFields): Logger {
+		return new Logger(this.options, { ...this.fields, ...fields });
+	}
+
+	isEnabled(level: LogLevel): boolean {
+		return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(this.options.level);
+	}
+
+	debug(message: string, fields?: LogFields) {
+		this.log('debug', message, fields);
+	}
+
+	info(message: string, fields?: LogFields) {
+		this.log('info', message, fields);
+	}
+
+	warn(message: string, fields?: LogFields) {
+		this.log('warn', message, fields);
+	}
+
+	error(message: string, fields?: LogFields) {
+		this.log('error', message, fields);
+	}
+
+	log(level: LogLevel, message: string, fields: LogFields = {}) {
+		if (!this.isEnabled(level)) return;
+		const entry = {
+			time: new Date().toISOString(),
+			level,
+			msg: message,
+			...context.getStore(),
+			...this.fields,
+			...fields,
+		};
+		this.options.write(JSON.stringify(entry, replaceErrors));
+	}
+}
+
+/** Run `fn` with fields added to every line logged during it, including by asynchronous continuations. */
+export function runWithLogContext<T>(fields: LogFields, fn: () => T): T {
+	return context.run({ ...context.getStore(), ...fields }, fn);
+}
+
+export function isLogLevel(value: string): value is LogLevel {
+	return (LOG_LEVELS as readonly string[]).includes(value);
+}
+
+/** The logger of the service; its level is set from the configuration at startup. */
+export const logger = new Logger({ level: 'info', write: (line) => process.stdout.write(`${line}\n`) });
+
+function replaceErrors(_key: string, value: unknown): unknown {
+	if (!(value instanceof Error)) return value;
+	return {
+		name: value.name,
+		message: value.message,
+		...('code' in value ? { code: value.code } : {}),
+		stack: value.stack,
+	};
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { MetricsRegistry } from 'app/util/Metrics.js';
+
+describe('MetricsRegistry', () => {
+	it('serializes counters and gauges in the Prometheus text format', () => {
+		const registry = new MetricsRegistry();
+		const renders = registry.counter('renders_total', 'Renders');
+		registry.gauge('queued', 'Queued renders', () => 3);
+		renders.inc({ outcome: 'success' });
+		renders.inc({ outcome: 'success' });
+		renders.inc({ outcome: 'error', code: 'DNS "failure"' }, 2);
+
+		expect(registry.serialize()).toBe(
+			[
+				'# HELP renders_total Renders',
+				'# TYPE renders_total counter',
+				'renders_total{outcome="success"} 2',
+				'renders_total{outcome="error",code="DNS \\"failure\\""} 2',
+				'# HELP queued Queued renders',
+				'# TYPE queued gauge',
+				'queued 3',
+				'',
+			].join('\n'),
+		);
+	});
+
+	it('serializes a gauge per set of labels', () => {
+		const registry = new MetricsRegistry();
+		registry.labelledGauge('queued', 'Queued renders', () => [
+			{ labels: { priority: 'high' }, value: 1 },
+			{ labels: { priority: 'low' }, value: 4 },
+		]);
+
+		expect(registry.serialize()).toContain('queued{priority="high"} 1\nqueued{priority="low"} 4\n');
+	});
+
+	it('accumulates histogram buckets', () => {
+		const registry = new MetricsRegistry();
+		const duration = registry.histogram('duration_seconds', 'Duration', [1, 0.5]);
+		duration.observe(0.2);
+		duration.observe(0.7);
+		duration.observe(3);
+
+		expect(registry.serialize()).toContain(
+			[
+				'duration_seconds_bucket{le="0.5"} 1',
+				'duration_seconds_bucket{le="1"} 2',
+				'duration_seconds_bucket{le="+Inf"} 3',
+				'duration_seconds_sum 3.9',
+				'duration_seconds_count 3',
+			].join('\n'),
+		);
+	});
+
+	it('rejects duplicate names', () => {
+		const registry = new MetricsRegistry();
+		registry.counter('renders_total', 'Renders');
+		expect(() => registry.counter('renders_total', 'Renders')).toThrow();
+	});
+});
@@ -0,0 +1,157 @@
+export type Labels = Record<string, string>;
+
+export interface Sample {
+	labels: Labels;
+	value: number;
+}
+
+interface Metric {
+	readonly name: string;
+	serialize(): string[];
+}
+
+/**
+ * A minimal registry of metrics, serialized in the Prometheus text exposition format.
+ */
+export class MetricsRegistry {
+	private readonly metrics = new Map<string, Metric>();
+
+	counter(name: string, help: string): Counter {
+		return this.register(new Counter(name, help));
+	}
+
+	/** A gauge whose value is read when the metrics are serialized. */
+	gauge(name: string, help: string, collect: () => number): Gauge {
+		return this.register(new Gauge(name, help, collect));
+	}
+
+	/** A gauge with one value per set of labels, all read when the metrics are serialized. */
+	labelledGauge(name: string, help: string, collect: () => Sample[]): Gauge {
+		return this.register(new Gauge(name, help, collect));
+	}
+
+	/** A counter maintained elsewhere, read when the metrics are serialized. */
+	collectedCounter(name: string, help: string, collect: () => number): Gauge {
+		return this.register(new Gauge(name, help, collect, 'counter'));
+	}
+
+	histogram(name: string, help: string, buckets: number[]): Histogram {
+		return this.register(new Histogram(name, help, buckets));
+	}
+
+	serialize(): string {
+		return (
+			Array.from(this.metrics.values())
+				.flatMap((metric) => metric.serialize())
+				.join('\n') + '\n'
+		);
+	}
+
+	private register<M extends Metric>(metric: M): M {
+		if (this.metrics.has(metric.name)) throw new Error(`Metric ${metric.name} is already registered`);
+		this.metrics.set(metric.name, metric);
+		return metric;
+	}
+}
+
+export class Counter implements Metric {
+	private readonly values = new Map<string, { labels: Labels; value: number }>();
+
+	constructor(
+		readonly name: string,
+		private readonly help: string,
+	) {}
+
+	inc(labels: Labels = {}, amount = 1) {
+		const key = labelsKey(labels);
+		const entry = this.values.get(key);
+		if (entry) entry.value += amount;
+		else this.values.set(key, { labels, value: amount });
+	}
+
+	get(labels: Labels = {}): number {
+		return this.values.get(labelsKey(labels))?.value ?? 0;
+	}
+
+	serialize(): string[] {
+		return [
+			`# HELP ${this.name} ${this.help}`,
+			`# TYPE ${this.name} counter`,
+			...Array.from(this.values.values()).map(
+				({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`,
+			),
+		];
+	}
+}
+
+export class Gauge implements Metric {
+	constructor(
+		readonly name: string,
+		private readonly help: string,
+		private readonly collect: () => number | Sample[],
+		private readonly type: 'gauge' | 'counter' = 'gauge',
+	) {}
+
+	serialize(): string[] {
+		const value = this.collect();
+		const samples = typeof value === 'number' ? [{ labels: {}, value }] : value;
+		return [
+			`# HELP ${this.name} ${this.help}`,
+			`# TYPE ${this.name} ${this.type}`,
+			...samples.map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`),
+		];
+	}
+}
+
+export class Histogram implements Metric {
+	private readonly values = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+	private readonly buckets: number[];
+
+	constructor(
+		readonly name: string,
+		private readonly help: string,
+		buckets: number[],
+	) {
+		this.buckets = [...buckets].sort((a, b) => a - b);
+	}
+
+	observe(value: number, labels: Labels = {}) {
+		const key = labelsKey(labels);
+		let entry = this.values.get(key);
+		if (!entry) {
+			entry = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+			this.values.set(key, entry);
+		}
+		this.buckets.forEach((bound, i) => {
+			if (value <= bound) entry.counts[i]++;
+		});
+		entry.sum += value;
+		entry.count++;
+	}
+
+	serialize(): string[] {
+		const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+		for (const { labels, counts, sum, count } of this.values.values()) {
+			this.buckets.forEach((bound, i) => {
+				lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[i]}`);
+			});
+			lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+			lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+			lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+		}
+		return lines;
+	}
+}
+
+function labelsKey(labels: Labels): string {
+	return JSON.stringify(Object.entries(labels).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)));
+}
+
+function formatLabels(labels: Labels): string {
+	const entries = Object.entries(labels);
+	if (entries.length === 0) return '';
+	const formatted = entries.map(
+		([name, value]) => `${name}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`,
+	);
+	return `{${formatted.join(',')}}`;
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { RequestCoalescer } from 'app/util/RequestCoalescer.js';
+
+function deferred<T>() {
+	let resolve!: (value: T) => void;
+	let reject!: (reason: unknown) => void;
+	const promise = new Promise<T>((res, rej) => {
+		resolve = res;
+		reject = rej;
+	});
+	return { promise, resolve, reject };
+}
+
+describe('RequestCoalescer', () => {
+	it('runs concurrent calls with the same key once and shares the result', async () => {
+		const coalescer = new RequestCoalescer<string>();
+		const pending = deferred<string>();
+		let runs = 0;
+		const task = () => {
+			runs++;
+			return pending.promise;
+		};
+
+		const first = coalescer.run('a', task);
+		const second = coalescer.run('a', task);
+		const other = coalescer.run('b', async () => 'other');
+		pending.resolve('shared');
+
+		await expect(first).resolves.toBe('shared');
+		await expect(second).resolves.toBe('shared');
+		await expect(other).resolves.toBe('other');
+		expect(runs).toBe(1);
+		expect(coalescer.mergedCount).toBe(1);
+	});
+
+	it('propagates errors to every caller', async () => {
+		const coalescer = new RequestCoalescer<string>();
+		const pending = deferred<string>();
+
+		const first = coalescer.run('a', () => pending.promise);
+		const second = coalescer.run('a', () => pending.promise);
+		pending.reject(new Error('boom'));
+
+		await expect(first).rejects.toThrow('boom');
+		await expect(second).rejects.toThrow('boom');
+	});
+
+	it('starts a new task once the previous one has settled', async () => {
+		const coalescer = new RequestCoalescer<number>();
+		let runs = 0;
+		const task = async () => ++runs;
+
+		await coalescer.run('a', task);
+		await expect(coalescer.run('a', task)).resolves.toBe(2);
+	});
+
+	it('aborts the shared task only when every caller has aborted', async () => {
+		const coalescer = new RequestCoalescer<string>();
+		const pending = deferred<string>();
+		let taskSignal: AbortSignal | undefined;
+		const task = (signal: AbortSignal) => {
+			taskSignal = signal;
+			return pending.promise;
+		};
+		const controller1 = new AbortController();
+		const controller2 = new AbortController();
+
+		const first = coalescer.run('a', task, controller1.signal);
+		const second = coalescer.run('a', task, controller2.signal);
+		controller1.abort(new Error('first gave up'));
+
+		await expect(first).rejects.toThrow('first gave up');
+		expect(taskSignal?.aborted).toBe(false);
+
+		controller2.abort(new Error('second gave up'));
+		await expect(second).rejects.toThrow('second gave up');
+		expect(taskSignal?.aborted).toBe(true);
+		pending.resolve('late');
+	});
+});
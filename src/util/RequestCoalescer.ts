@@ -0,0 +1,55 @@
+interface InFlight<T> {
+	promise: Promise<T>;
+	controller: AbortController;
+	/** Callers that have neither aborted nor received the result yet. */
+	interested: number;
+}
+
+/**
+ * Shares the work of concurrent identical requests: while a task for a key is in flight, further callers with the
+ * same key wait for its result (or error) instead of starting their own. The shared task is aborted only when every
+ * caller has aborted.
+ */
+export class RequestCoalescer<T> {
+	private inFlight = new Map<string, InFlight<T>>();
+	private merged = 0;
+
+	/** Number of calls that joined a task already in flight. */
+	get mergedCount(): number {
+		return this.merged;
+	}
+
+	run(key: string, task: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+		signal?.throwIfAborted();
+
+		let flight = this.inFlight.get(key);
+		if (flight) {
+			this.merged++;
+		} else {
+			const controller = new AbortController();
+			const created: InFlight<T> = { promise: task(controller.signal), controller, interested: 0 };
+			const cleanup = () => {
+				if (this.inFlight.get(key) === created) this.inFlight.delete(key);
+			};
+			created.promise.then(cleanup, cleanup);
+			this.inFlight.set(key, created);
+			flight = created;
+		}
+
+		return join(flight, signal);
+	}
+}
+
+function join<T>(flight: InFlight<T>, signal?: AbortSignal): Promise<T> {
+	flight.interested++;
+	if (!signal) return flight.promise;
+
+	return new Promise<T>((resolve, reject) => {
+		const onAbort = () => {
+			if (--flight.interested === 0) flight.controller.abort(signal.reason);
+			reject(signal.reason);
+		};
+		signal.addEventListener('abort', onAbort, { once: true });
+		flight.promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+	});
+}
@@ -0,0 +1,95 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Semaphore, SemaphoreQueueFullError, SemaphoreTimeoutError } from 'app/util/Semaphore.js';
+
+describe('Semaphore', () => {
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('grants slots in order and reports the queue position', async () => {
+		const semaphore = new Semaphore(1);
+		const release = await semaphore.acquire();
+		const first = semaphore.enqueue();
+		const second = semaphore.enqueue();
+		expect([first.position(), second.position()]).toEqual([0, 1]);
+
+		release();
+		await first.acquired;
+		expect(second.position()).toBe(0);
+		expect(semaphore.activeCount).toBe(1);
+		expect(semaphore.queueLength).toBe(1);
+	});
+
+	it('serves higher priorities first', async () => {
+		const semaphore = new Semaphore(1);
+		const release = await semaphore.acquire();
+		const order: string[] = [];
+		const tickets = (['low', 'normal', 'high', 'normal'] as const).map((priority, i) => {
+			const ticket = semaphore.enqueue({ priority });
+			void ticket.acquired.then((releaseSlot) => {
+				order.push(`${priority}${i}`);
+				releaseSlot();
+			});
+			return ticket;
+		});
+		expect(tickets.map((ticket) => ticket.position())).toEqual([3, 1, 0, 2]);
+		expect(semaphore.queueLengthByPriority()).toEqual({ high: 1, normal: 2, low: 1 });
+
+		release();
+		await Promise.all(tickets.map((ticket) => ticket.acquired));
+		expect(order).toEqual(['high2', 'normal1', 'normal3', 'low0']);
+	});
+
+	it('promotes waiters that have waited long enough', async () => {
+		vi.useFakeTimers();
+		const semaphore = new Semaphore(1, { agingMs: 1000 });
+		const release = await semaphore.acquire();
+		const low = semaphore.enqueue({ priority: 'low' });
+		await vi.advanceTimersByTimeAsync(2000);
+		const high = semaphore.enqueue({ priority: 'high' });
+		expect([low.position(), high.position()]).toEqual([0, 1]);
+
+		release();
+		await low.acquired;
+		expect(semaphore.queueLengthByPriority()).toEqual({ high: 1, normal: 0, low: 0 });
+	});
+
+	it('rejects new waiters while the queue is full', async () => {
+		const semaphore = new Semaphore(1, { maxQueueLength: 1 });
+		await semaphore.acquire();
+		semaphore.enqueue();
+		expect(() => semaphore.enqueue()).toThrow(SemaphoreQueueFullError);
+	});
+
+	it('removes a waiter from the queue when its deadline passes', async () => {
+		vi.useFakeTimers();
+		const semaphore = new Semaphore(1);
+		const release = await semaphore.acquire();
+		const late = semaphore.enqueue({ maxWaitMs: 1000 });
+		const next = semaphore.enqueue();
+		const rejected = expect(late.acquired).rejects.toBeInstanceOf(SemaphoreTimeoutError);
+
+		await vi.advanceTimersByTimeAsync(1000);
+		await rejected;
+		expect(next.position()).toBe(0);
+		expect(semaphore.queueLength).toBe(1);
+
+		release();
+		await next.acquired;
+		expect(semaphore.activeCount).toBe(1);
+	});
+
+	it('removes a waiter from the queue when aborted', async () => {
+		const semaphore = new Semaphore(1);
+		const release = await semaphore.acquire();
+		const controller = new AbortController();
+		const ticket = semaphore.enqueue({ signal: controller.signal });
+
+		controller.abort();
+		await expect(ticket.acquired).rejects.toMatchObject({ name: 'AbortError' });
+		expect(semaphore.queueLength).toBe(0);
+
+		release();
+		expect(semaphore.activeCount).toBe(0);
+	});
+});
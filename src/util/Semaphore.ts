@@ -1,26 +1,171 @@
+/** Priorities of waiters, highest first. */
+export const PRIORITIES = ['high', 'normal', 'low'] as const;
+
+export type Priority = (typeof PRIORITIES)[number];
+
+export interface SemaphoreTicket {
+	/** Resolves with the release function once a slot has been granted. */
+	acquired: Promise<() => void>;
+	/** Number of waiters ahead of this one; 0 once the slot has been granted. */
+	position(): number;
+}
+
+export interface SemaphoreOptions {
+	/** Reject new waiters while this many are queued; unbounded by default. */
+	maxQueueLength?: number;
+	/**
+	 * A waiter is served as if its priority were one higher for every this long it has waited, so that lower
+	 * priorities are not starved by a steady stream of higher ones. Defaults to 10 seconds.
+	 */
+	agingMs?: number;
+}
+
+export interface EnqueueOptions {
+	/** Give up waiting, rejecting with the reason of the signal. */
+	signal?: AbortSignal;
+	/** Give up waiting after this long, rejecting with `SemaphoreTimeoutError`. */
+	maxWaitMs?: number;
+	/** Defaults to `normal`. */
+	priority?: Priority;
+}
+
+export class SemaphoreQueueFullError extends Error {
+	constructor(queueLength: number) {
+		super(`Too many requests waiting (${queueLength})`);
+		this.name = 'SemaphoreQueueFullError';
+	}
+}
+
+export class SemaphoreTimeoutError extends Error {
+	constructor(waitedMs: number) {
+		super(`No slot available within ${waitedMs}ms`);
+		this.name = 'SemaphoreTimeoutError';
+	}
+}
+
+interface Waiter {
+	/** Index in `PRIORITIES`; lower is served first. */
+	rank: number;
+	enqueuedAt: number;
+	grant: () => void;
+}
+
+const DEFAULT_AGING_MS = 10000;
+
+/**
+ * Limits the number of concurrent holders. Waiters are served by priority, and in arrival order within a priority.
+ */
 export class Semaphore {
-	private queue: (() => void)[] = [];
+	/** Waiters in arrival order. */
+	private queue: Waiter[] = [];
 	private active = 0;
+	private readonly maxQueueLength: number;
+	private readonly agingMs: number;
 
-	constructor(private readonly max: number) {}
+	constructor(
+		private readonly max: number,
+		options: SemaphoreOptions = {},
+	) {
+		this.maxQueueLength = options.maxQueueLength ?? Infinity;
+		this.agingMs = options.agingMs ?? DEFAULT_AGING_MS;
+	}
+
+	async acquire(options?: EnqueueOptions): Promise<() => void> {
+		return this.enqueue(options).acquired;
+	}
 
-	async acquire(): Promise<() => void> {
+	/**
+	 * Like `acquire()`, but also lets the caller observe its position in the queue while waiting. A waiter that gives
+	 * up leaves the queue at once.
+	 * @throws SemaphoreQueueFullError if the queue is full
+	 */
+	enqueue(options: EnqueueOptions = {}): SemaphoreTicket {
+		const { signal, maxWaitMs, priority = 'normal' } = options;
+		signal?.throwIfAborted();
 		if (this.active < this.max) {
 			this.active++;
-			return () => this.release();
+			return { acquired: Promise.resolve(() => this.release()), position: () => 0 };
 		}
+		if (this.queue.length >= this.maxQueueLength) throw new SemaphoreQueueFullError(this.queue.length);
 
-		return new Promise((resolve) => {
-			this.queue.push(() => {
-				this.active++;
-				resolve(() => this.release());
-			});
+		let waiter!: Waiter;
+		const acquired = new Promise<() => void>((resolve, reject) => {
+			const stopWaiting = () => {
+				clearTimeout(timer);
+				signal?.removeEventListener('abort', onAbort);
+			};
+			const giveUp = (reason: unknown) => {
+				stopWaiting();
+				this.queue.splice(this.queue.indexOf(waiter), 1);
+				reject(reason);
+			};
+			const onAbort = () => giveUp(signal?.reason);
+			const timer =
+				maxWaitMs !== undefined
+					? setTimeout(() => giveUp(new SemaphoreTimeoutError(maxWaitMs)), maxWaitMs)
+					: undefined;
+			signal?.addEventListener('abort', onAbort, { once: true });
+
+			waiter = {
+				rank: PRIORITIES.indexOf(priority),
+				enqueuedAt: Date.now(),
+				grant: () => {
+					stopWaiting();
+					this.active++;
+					resolve(() => this.release());
+				},
+			};
+			this.queue.push(waiter);
 		});
+		return { acquired, position: () => this.positionOf(waiter) };
+	}
+
+	get activeCount(): number {
+		return this.active;
+	}
+
+	get queueLength(): number {
+		return this.queue.length;
+	}
+
+	/** Number of waiters of each priority. */
+	queueLengthByPriority(): Record<Priority, number> {
+		const lengths = { high: 0, normal: 0, low: 0 };
+		for (const waiter of this.queue) lengths[PRIORITIES[waiter.rank]]++;
+		return lengths;
 	}
 
 	private release() {
 		this.active--;
-		const next = this.queue.shift();
-		if (next) next();
+		const next = this.next();
+		if (!next) return;
+		this.queue.splice(this.queue.indexOf(next), 1);
+		next.grant();
+	}
+
+	/** The waiter to serve first: the highest effective priority, the earliest among equals. */
+	private next(): Waiter | undefined {
+		const now = Date.now();
+		let next: Waiter | undefined;
+		for (const waiter of this.queue) {
+			if (!next || this.effectiveRank(waiter, now) < this.effectiveRank(next, now)) next = waiter;
+		}
+		return next;
+	}
+
+	/** Number of waiters that would be served before this one if slots were granted now. */
+	private positionOf(waiter: Waiter): number {
+		const index = this.queue.indexOf(waiter);
+		if (index === -1) return 0;
+		const now = Date.now();
+		const rank = this.effectiveRank(waiter, now);
+		return this.queue.filter((other, otherIndex) => {
+			const otherRank = this.effectiveRank(other, now);
+			return otherRank < rank || (otherRank === rank && otherIndex < index);
+		}).length;
+	}
+
+	private effectiveRank(waiter: Waiter, now: number): number {
+		return waiter.rank - Math.floor((now - waiter.enqueuedAt) / this.agingMs);
 	}
 }
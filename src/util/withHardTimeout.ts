@@ -1,3 +1,12 @@
+import { logger } from 'app/util/Logger.js';
+
+export class HardTimeoutError extends Error {
+	constructor() {
+		super('Hard timeout exceeded');
+		this.name = 'HardTimeoutError';
+	}
+}
+
 export async function withHardTimeout<T>(
 	task: Promise<T>,
 	timeoutMs: number,
@@ -11,9 +20,9 @@ export async function withHardTimeout<T>(
 				await onTimeout();
 			} catch (e) {
 				// ignore cleanup errors, but log them for completeness
-				console.warn('Error in onTimeout() - will be ignored', e);
+				logger.warn('Error in onTimeout() - will be ignored', { err: e });
 			}
-			reject(new Error('Hard timeout exceeded'));
+			reject(new HardTimeoutError());
 		}, timeoutMs);
 	});
 
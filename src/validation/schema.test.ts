@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { ObjectSchema, parseWithSchema, validate, ValidationError } from 'app/validation/schema.js';
+
+const schema: ObjectSchema = {
+	type: 'object',
+	properties: {
+		name: { type: 'string', minLength: 1, required: true },
+		count: { type: 'integer', min: 1, max: 10 },
+		mode: { type: 'enum', values: ['a', 'b'] },
+		size: {
+			type: 'object',
+			properties: {
+				width: { type: 'number', required: true },
+			},
+		},
+		tags: { type: 'array', items: { type: 'string' }, maxItems: 2 },
+		flag: { type: 'oneOf', options: [{ type: 'boolean' }, { type: 'enum', values: ['auto'] }] },
+	},
+	check: (value) =>
+		value.mode === 'b' && value.count === undefined ? [{ field: 'count', message: 'is required' }] : [],
+};
+
+describe('validate', () => {
+	it('accepts valid values', () => {
+		expect(validate({ name: 'x', count: 3, mode: 'a', size: { width: 1.5 }, flag: 'auto' }, schema)).toEqual([]);
+	});
+
+	it('reports field-level issues', () => {
+		expect(validate({ count: 'abc', mode: 'c', size: 'big', extra: 1 }, schema)).toEqual([
+			{ field: 'name', message: 'is required' },
+			{ field: 'count', message: 'must be a number' },
+			{ field: 'mode', message: 'must be one of "a", "b"' },
+			{ field: 'size', message: 'must be an object' },
+			{ field: 'extra', message: 'is not allowed' },
+		]);
+	});
+
+	it('checks ranges and nested fields', () => {
+		expect(validate({ name: '', count: 11, size: { width: 1, height: 2 } }, schema)).toEqual([
+			{ field: 'name', message: 'must not be empty' },
+			{ field: 'count', message: 'must be at most 10' },
+			{ field: 'size.height', message: 'is not allowed' },
+		]);
+	});
+
+	it('validates array items', () => {
+		expect(validate({ name: 'x', tags: ['a', 1] }, schema)).toEqual([
+			{ field: 'tags[1]', message: 'must be a string' },
+		]);
+		expect(validate({ name: 'x', tags: ['a', 'b', 'c'] }, schema)).toEqual([
+			{ field: 'tags', message: 'must have at most 2 items' },
+		]);
+	});
+
+	it('combines the messages of alternatives', () => {
+		expect(validate({ name: 'x', flag: 'false' }, schema)).toEqual([
+			{ field: 'flag', message: 'must be a boolean or must be one of "auto"' },
+		]);
+	});
+
+	it('runs cross-field checks on otherwise valid objects', () => {
+		expect(validate({ name: 'x', mode: 'b' }, schema)).toEqual([{ field: 'count', message: 'is required' }]);
+	});
+});
+
+describe('parseWithSchema', () => {
+	it('throws a ValidationError with all issues', () => {
+		expect(() => parseWithSchema({}, schema)).toThrow(ValidationError);
+		expect(() => parseWithSchema(null, schema)).toThrow('Invalid request: value must be an object');
+	});
+});
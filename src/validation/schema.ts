@@ -0,0 +1,173 @@
+/**
+ * A small declarative schema for validating JSON request bodies, with field-level error reporting.
+ */
+export type Schema =
+	| StringSchema
+	| NumberSchema
+	| BooleanSchema
+	| EnumSchema
+	| ArraySchema
+	| ObjectSchema
+	| OneOfSchema;
+
+export interface StringSchema {
+	type: 'string';
+	minLength?: number;
+	maxLength?: number;
+}
+
+export interface NumberSchema {
+	type: 'number' | 'integer';
+	min?: number;
+	max?: number;
+}
+
+export interface BooleanSchema {
+	type: 'boolean';
+}
+
+export interface EnumSchema {
+	type: 'enum';
+	values: readonly (string | boolean | number)[];
+}
+
+export interface ArraySchema {
+	type: 'array';
+	items: Schema;
+	maxItems?: number;
+}
+
+export interface ObjectSchema {
+	type: 'object';
+	properties: Record<string, PropertySchema>;
+	/** Accept properties not listed in `properties`; they are rejected by default. */
+	allowUnknown?: boolean;
+	/** Cross-field checks, run only if all properties are valid; returns issues relative to this object. */
+	check?: (value: Record<string, unknown>) => ValidationIssue[];
+}
+
+export type PropertySchema = Schema & { required?: boolean };
+
+/** The value must match at least one of the alternatives. */
+export interface OneOfSchema {
+	type: 'oneOf';
+	options: Schema[];
+}
+
+export interface ValidationIssue {
+	/** Dotted path of the offending field, e.g. `viewport.width`; empty for the value itself. */
+	field: string;
+	message: string;
+}
+
+export class ValidationError extends Error {
+	constructor(readonly issues: ValidationIssue[]) {
+		super(`Invalid request: ${issues.map((issue) => `${issue.field || 'value'} ${issue.message}`).join('; ')}`);
+		this.name = 'ValidationError';
+	}
+}
+
+/**
+ * Validate a value and return it typed as `T`.
+ * @throws ValidationError listing every issue found
+ */
+export function parseWithSchema<T>(value: unknown, schema: Schema): T {
+	const issues = validate(value, schema);
+	if (issues.length > 0) throw new ValidationError(issues);
+	return value as T;
+}
+
+export function validate(value: unknown, schema: Schema, field = ''): ValidationIssue[] {
+	switch (schema.type) {
+		case 'string':
+			return validateString(value, schema, field);
+		case 'number':
+		case 'integer':
+			return validateNumber(value, schema, field);
+		case 'boolean':
+			return typeof value === 'boolean' ? [] : [{ field, message: 'must be a boolean' }];
+		case 'enum':
+			return schema.values.includes(value as string | boolean | number)
+				? []
+				: [{ field, message: `must be one of ${schema.values.map((v) => JSON.stringify(v)).join(', ')}` }];
+		case 'array':
+			return validateArray(value, schema, field);
+		case 'object':
+			return validateObject(value, schema, field);
+		case 'oneOf':
+			return validateOneOf(value, schema, field);
+	}
+}
+
+function validateString(value: unknown, schema: StringSchema, field: string): ValidationIssue[] {
+	if (typeof value !== 'string') return [{ field, message: 'must be a string' }];
+	if (schema.minLength !== undefined && value.length < schema.minLength) {
+		return [
+			{
+				field,
+				message:
+					schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters`,
+			},
+		];
+	}
+	if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+		return [{ field, message: `must be at most ${schema.maxLength} characters` }];
+	}
+	return [];
+}
+
+function validateNumber(value: unknown, schema: NumberSchema, field: string): ValidationIssue[] {
+	if (typeof value !== 'number' || !Number.isFinite(value)) return [{ field, message: 'must be a number' }];
+	if (schema.type === 'integer' && !Number.isInteger(value)) return [{ field, message: 'must be an integer' }];
+	if (schema.min !== undefined && value < schema.min) return [{ field, message: `must be at least ${schema.min}` }];
+	if (schema.max !== undefined && value > schema.max) return [{ field, message: `must be at most ${schema.max}` }];
+	return [];
+}
+
+function validateArray(value: unknown, schema: ArraySchema, field: string): ValidationIssue[] {
+	if (!Array.isArray(value)) return [{ field, message: 'must be an array' }];
+	if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+		return [{ field, message: `must have at most ${schema.maxItems} items` }];
+	}
+	return value.flatMap((item, index) => validate(item, schema.items, `${field}[${index}]`));
+}
+
+function validateObject(value: unknown, schema: ObjectSchema, field: string): ValidationIssue[] {
+	if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+		return [{ field, message: 'must be an object' }];
+	}
+
+	const record = value as Record<string, unknown>;
+	const issues: ValidationIssue[] = [];
+	for (const [name, propertySchema] of Object.entries(schema.properties)) {
+		const propertyField = join(field, name);
+		if (record[name] === undefined) {
+			if (propertySchema.required) issues.push({ field: propertyField, message: 'is required' });
+			continue;
+		}
+		issues.push(...validate(record[name], propertySchema, propertyField));
+	}
+	if (!schema.allowUnknown) {
+		for (const name of Object.keys(record)) {
+			if (!Object.hasOwn(schema.properties, name))
+				issues.push({ field: join(field, name), message: 'is not allowed' });
+		}
+	}
+	if (issues.length === 0 && schema.check) {
+		issues.push(...schema.check(record).map((issue) => ({ ...issue, field: join(field, issue.field) })));
+	}
+	return issues;
+}
+
+function validateOneOf(value: unknown, schema: OneOfSchema, field: string): ValidationIssue[] {
+	const results = schema.options.map((option) => validate(value, option, field));
+	if (results.some((issues) => issues.length === 0)) return [];
+	// Issues inside the fields of an alternative are more informative than mismatches of the value itself
+	const nested = results.find((issues) => !(issues.length === 1 && issues[0].field === field));
+	if (nested) return nested;
+	return [{ field, message: results.map((issues) => issues[0].message).join(' or ') }];
+}
+
+function join(parent: string, name: string): string {
+	return parent ? `${parent}.${name}` : name;
+}
@@ -5,3 +5,18 @@ test('GET /health returns ok', async ({ request, baseURL }) => {
 	expect(res.status()).toBe(200);
 	await expect(res.json()).resolves.toEqual({ ok: true });
 });
+
+test('GET /ready reports the browser pool and the queue', async ({ request, baseURL }) => {
+	const res = await request.get(`${baseURL}/ready`);
+	expect(res.status()).toBe(200);
+	const body = await res.json();
+	expect(body.ready).toBe(true);
+	expect(body.browsers.alive).toBeGreaterThan(0);
+	expect(body.jobs).toEqual(
+		expect.objectContaining({
+			active: expect.any(Number),
+			queued: expect.any(Number),
+			coalesced: expect.any(Number),
+		}),
+	);
+});